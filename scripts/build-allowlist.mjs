@@ -0,0 +1,77 @@
+// Builds an enrollment allowlist with Merkle proofs from a CSV of participants.
+//
+//   node scripts/build-allowlist.mjs participants.csv public/allowlists/cohort-3.json
+//
+// Each CSV row has a label and an address, in either order (a header row is skipped).
+// The output is the file `allowlistUrl` points to; the printed root goes in `allowlistRoot`.
+// The tree is OpenZeppelin's StandardMerkleTree with the leaf encoding ["address", "string"],
+// matching the verification in src/app/allowlist.ts.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { concat, encodeAbiParameters, getAddress, isAddress, keccak256 } from 'viem';
+
+const [input, output] = process.argv.slice(2);
+if (!input || !output) {
+  console.error('Usage: node scripts/build-allowlist.mjs <participants.csv> <output.json>');
+  process.exit(1);
+}
+
+const participants = [];
+const seen = new Set();
+readFileSync(input, 'utf8').split(/\r?\n/).forEach((line, index) => {
+  if (line.trim() === '') {
+    return;
+  }
+  const fields = line.split(/[,;\t]/).map((field) => field.trim().replace(/^"(.*)"$/, '$1'));
+  const addressIndex = fields.findIndex((field) => isAddress(field, { strict: false }));
+  if (addressIndex === -1) {
+    console.warn(`Skipping line ${index + 1}: no address`);
+    return;
+  }
+  const address = getAddress(fields[addressIndex]);
+  if (seen.has(address)) {
+    console.warn(`Skipping line ${index + 1}: duplicate address ${address}`);
+    return;
+  }
+  seen.add(address);
+  const label = fields.find((field, fieldIndex) => fieldIndex !== addressIndex && field.length > 0) ?? '';
+  participants.push({ address, label });
+});
+if (participants.length === 0) {
+  console.error('No participants found');
+  process.exit(1);
+}
+
+const hashLeaf = ({ address, label }) =>
+  keccak256(keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'string' }], [address, label])));
+const hashPair = (a, b) => keccak256(a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a]));
+
+// Array layout of OpenZeppelin's tree: node i has children 2i+1 and 2i+2, leaves sorted by hash at the end
+const leaves = participants.map((participant) => ({ participant, hash: hashLeaf(participant) }));
+leaves.sort((a, b) => (a.hash.toLowerCase() < b.hash.toLowerCase() ? -1 : 1));
+const tree = new Array(2 * leaves.length - 1);
+leaves.forEach((leaf, index) => {
+  leaf.treeIndex = tree.length - 1 - index;
+  tree[leaf.treeIndex] = leaf.hash;
+});
+for (let index = tree.length - 1 - leaves.length; index >= 0; index--) {
+  tree[index] = hashPair(tree[2 * index + 1], tree[2 * index + 2]);
+}
+
+const getProof = (treeIndex) => {
+  const proof = [];
+  for (let index = treeIndex; index > 0; index = Math.floor((index - 1) / 2)) {
+    proof.push(tree[index % 2 === 0 ? index - 1 : index + 1]);
+  }
+  return proof;
+};
+
+const merkleRoot = tree[0];
+writeFileSync(output, JSON.stringify({
+  merkleRoot,
+  participants: leaves
+    .sort((a, b) => participants.indexOf(a.participant) - participants.indexOf(b.participant))
+    .map((leaf) => ({ ...leaf.participant, proof: getProof(leaf.treeIndex) })),
+}, null, 2) + '\n');
+
+console.log(`Wrote ${participants.length} participant(s) to ${output}`);
+console.log(`allowlistRoot: ${merkleRoot}`);
@@ -0,0 +1,47 @@
+// Local webhook receiver for testing the relay: verifies each payload's signature and prints it.
+//
+//   WEBHOOK_SECRET=dev-secret node scripts/webhook-receiver.mjs
+//
+// PORT (default 4000) sets the port; FAIL_FIRST=<n> answers the first n requests with
+// HTTP 500, to exercise the relay's retries.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+let failuresLeft = Number(process.env.FAIL_FIRST || 0);
+
+if (!secret) {
+  console.error('WEBHOOK_SECRET is required');
+  process.exit(1);
+}
+
+function isSignatureValid(timestamp, body, signature) {
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`);
+  const received = Buffer.from(signature ?? '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+createServer((request, response) => {
+  let body = '';
+  request.on('data', (chunk) => {
+    body += chunk;
+  });
+  request.on('end', () => {
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.log(`Failing ${request.headers['x-webhook-id']} on purpose (${failuresLeft} left)`);
+      response.writeHead(500).end();
+      return;
+    }
+    if (!isSignatureValid(request.headers['x-webhook-timestamp'], body, request.headers['x-webhook-signature'])) {
+      console.log(`Rejected ${request.headers['x-webhook-id']}: invalid signature`);
+      response.writeHead(401).end();
+      return;
+    }
+    console.log(JSON.stringify(JSON.parse(body), null, 2));
+    response.writeHead(204).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
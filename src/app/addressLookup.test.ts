@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resolveLookupAddress } from './addressLookup';
+
+// Mainnet ENS reads, answered per name and coin type
+const { getEnsAddress } = vi.hoisted(() => ({ getEnsAddress: vi.fn() }));
+
+vi.mock('viem', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('viem')>()),
+  createPublicClient: () => ({ getEnsAddress }),
+}));
+
+const ALICE = '0x000000000000000000000000000000000000dEaD';
+const BASE_ALICE = '0x0000000000000000000000000000000000000B0b';
+
+beforeEach(() => {
+  getEnsAddress.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('resolveLookupAddress', () => {
+  it('returns a plain address checksummed', async () => {
+    expect(await resolveLookupAddress(` ${ALICE.toLowerCase()} `)).toEqual({ address: ALICE, name: null });
+    expect(getEnsAddress).not.toHaveBeenCalled();
+  });
+
+  it('resolves a Basename with the Base coin type', async () => {
+    getEnsAddress.mockImplementation(async ({ coinType }) => (coinType === undefined ? ALICE : BASE_ALICE));
+
+    expect(await resolveLookupAddress('alice.base.eth')).toEqual({ address: BASE_ALICE, name: 'alice.base.eth' });
+    // ENSIP-11: 0x80000000 | 8453, as an unsigned integer
+    expect(getEnsAddress).toHaveBeenCalledWith({ name: 'alice.base.eth', coinType: 2147492101 });
+  });
+
+  it('falls back to the Ethereum address of a Basename without a Base record', async () => {
+    getEnsAddress.mockImplementation(async ({ coinType }) => (coinType === undefined ? ALICE : null));
+
+    expect(await resolveLookupAddress('alice.base.eth')).toEqual({ address: ALICE, name: 'alice.base.eth' });
+  });
+
+  it('resolves an ENS name with its Ethereum record only', async () => {
+    getEnsAddress.mockResolvedValue(ALICE);
+
+    expect(await resolveLookupAddress('Alice.eth')).toEqual({ address: ALICE, name: 'alice.eth' });
+    expect(getEnsAddress).toHaveBeenCalledTimes(1);
+    expect(getEnsAddress).toHaveBeenCalledWith({ name: 'alice.eth' });
+  });
+
+  it('reports names without an address', async () => {
+    getEnsAddress.mockResolvedValue(null);
+
+    await expect(resolveLookupAddress('nobody.eth')).rejects.toMatchObject({
+      error: { code: 'NAME_NOT_RESOLVED', name: 'nobody.eth' },
+    });
+  });
+
+  it('rejects input that is neither an address nor a name', async () => {
+    await expect(resolveLookupAddress('0x1234')).rejects.toMatchObject({ error: { code: 'INVALID_ADDRESS' } });
+  });
+});
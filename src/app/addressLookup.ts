@@ -0,0 +1,71 @@
+import { createPublicClient, getAddress, http, isAddress } from 'viem';
+import { normalize } from 'viem/ens';
+import { base, mainnet } from 'wagmi/chains';
+import { RUNTIME_CONFIG } from './configSchema';
+import { DepositPoolError, toDepositPoolError } from './errors';
+
+/**
+ * Resolution of the address typed into the public status lookup:
+ * a plain 0x address, an ENS name or a Basename (`*.base.eth`).
+ */
+
+export interface ResolvedAddress {
+  address: `0x${string}`;
+  // ENS name or Basename the address was resolved from
+  name: string | null;
+}
+
+// ENS (and Basenames, through their L1 resolver) always resolve on Ethereum mainnet
+const ensClient = createPublicClient({
+  chain: mainnet,
+  transport: http(RUNTIME_CONFIG.mainnetRpcUrl ?? undefined),
+});
+
+// ENSIP-11 coin type of Base addresses; `>>> 0` keeps the bitwise OR unsigned
+const BASE_COIN_TYPE = (0x80000000 | base.id) >>> 0;
+
+const nameRegex = /^[^\s.]+(\.[^\s.]+)+$/;
+
+/**
+ * Route of the public status lookup of an address
+ */
+export function getStatusPath(addressOrName: string): string {
+  return `/status?address=${encodeURIComponent(addressOrName)}`;
+}
+
+/**
+ * Resolve lookup input to a checksummed address
+ * @param input - 0x address, ENS name or Basename
+ * @returns Promise<ResolvedAddress> - Address and the name it came from
+ * @throws DepositPoolError with INVALID_ADDRESS, NAME_NOT_RESOLVED or the classified network error
+ */
+export async function resolveLookupAddress(input: string): Promise<ResolvedAddress> {
+  const trimmed = input.trim();
+  if (isAddress(trimmed, { strict: false })) {
+    return { address: getAddress(trimmed), name: null };
+  }
+  if (!nameRegex.test(trimmed)) {
+    throw new DepositPoolError({ code: 'INVALID_ADDRESS' });
+  }
+
+  let name: string;
+  try {
+    name = normalize(trimmed);
+  } catch (error) {
+    throw new DepositPoolError({ code: 'INVALID_ADDRESS' }, { cause: error });
+  }
+
+  try {
+    // Basenames are registered for Base; fall back to the Ethereum address record
+    const address = (name.endsWith('.base.eth')
+      ? await ensClient.getEnsAddress({ name, coinType: BASE_COIN_TYPE })
+      : null) ?? await ensClient.getEnsAddress({ name });
+    if (!address) {
+      throw new DepositPoolError({ code: 'NAME_NOT_RESOLVED', name });
+    }
+    return { address: getAddress(address), name };
+  } catch (error) {
+    console.error('Error resolving name:', error);
+    throw toDepositPoolError(error);
+  }
+}
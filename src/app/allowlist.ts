@@ -0,0 +1,132 @@
+import { concat, encodeAbiParameters, getAddress, isAddress, isHex, keccak256 } from 'viem';
+import { queryClient } from './queryClient';
+
+/**
+ * Enrollment allowlists: the wallets enrolled in a cohort, each with a participant label.
+ *
+ * A deployment's `allowlistUrl` points to a JSON file:
+ *
+ *   { "participants": [{ "address": "0x…", "label": "Alice", "proof": ["0x…"] }] }
+ *
+ * With an `allowlistRoot`, every entry must carry a Merkle proof against that root, so
+ * the file can be hosted anywhere without being trusted. Leaves follow OpenZeppelin's
+ * `StandardMerkleTree` with the leaf encoding `["address", "string"]`; see
+ * `scripts/build-allowlist.mjs`.
+ */
+
+export interface AllowlistConfig {
+  // Absolute URL, or a path served by this app such as `/allowlists/cohort-3.json`
+  url: string;
+  merkleRoot: `0x${string}` | null;
+}
+
+export interface AllowlistEntry {
+  address: `0x${string}`;
+  label: string;
+}
+
+export type Enrollment =
+  // The pool has no allowlist; anyone may deposit
+  | { status: 'open' }
+  | { status: 'enrolled'; label: string }
+  | { status: 'not-enrolled' };
+
+/**
+ * The allowlist file is malformed or does not match the configured Merkle root
+ */
+export class AllowlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AllowlistError';
+  }
+}
+
+/**
+ * Merkle leaf of an entry: `keccak256(keccak256(abi.encode(address, label)))`
+ */
+export function getAllowlistLeaf(entry: AllowlistEntry): `0x${string}` {
+  return keccak256(keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'string' }], [entry.address, entry.label])));
+}
+
+/**
+ * Check a Merkle proof with sorted-pair hashing, like OpenZeppelin's `MerkleProof.verify`
+ */
+export function verifyAllowlistProof(root: `0x${string}`, leaf: `0x${string}`, proof: readonly `0x${string}`[]): boolean {
+  const computed = proof.reduce(
+    (hash, sibling) => keccak256(hash.toLowerCase() < sibling.toLowerCase() ? concat([hash, sibling]) : concat([sibling, hash])),
+    leaf
+  );
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Fetch and validate an allowlist
+ * @param config - Allowlist of the deployment
+ * @returns Promise<Map<string, AllowlistEntry>> - Entries by lowercased address
+ * @throws AllowlistError if the file is malformed or an entry does not match the Merkle root
+ */
+export async function loadAllowlist(config: AllowlistConfig): Promise<Map<string, AllowlistEntry>> {
+  const response = await fetch(config.url, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new AllowlistError(`HTTP ${response.status}`);
+  }
+  const body: unknown = await response.json().catch(() => null);
+  const participants = (body as { participants?: unknown } | null)?.participants;
+  if (!Array.isArray(participants)) {
+    throw new AllowlistError('Expected a JSON object with a "participants" array');
+  }
+
+  const entries = new Map<string, AllowlistEntry>();
+  participants.forEach((raw: { address?: unknown; label?: unknown; proof?: unknown }, index) => {
+    if (typeof raw?.address !== 'string' || !isAddress(raw.address, { strict: false })) {
+      throw new AllowlistError(`participants[${index}].address is not a valid address`);
+    }
+    const entry: AllowlistEntry = { address: getAddress(raw.address), label: typeof raw.label === 'string' ? raw.label : '' };
+
+    if (config.merkleRoot) {
+      const proof = raw.proof;
+      if (!Array.isArray(proof) || !proof.every((item) => typeof item === 'string' && isHex(item) && item.length === 66)) {
+        throw new AllowlistError(`participants[${index}].proof must be an array of 32-byte hex strings`);
+      }
+      if (!verifyAllowlistProof(config.merkleRoot, getAllowlistLeaf(entry), proof as `0x${string}`[])) {
+        throw new AllowlistError(`participants[${index}] (${entry.address}) does not match the Merkle root`);
+      }
+    }
+    entries.set(entry.address.toLowerCase(), entry);
+  });
+  return entries;
+}
+
+// Organizers may extend the list while enrollment is open
+const ALLOWLIST_STALE_TIME = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Query options of an allowlist, shared by the enrollment check and the diagnostics
+ */
+export function allowlistQueryOptions(config: AllowlistConfig) {
+  return {
+    queryKey: ['allowlist', config.url, config.merkleRoot],
+    queryFn: () => loadAllowlist(config),
+    staleTime: ALLOWLIST_STALE_TIME,
+  };
+}
+
+/**
+ * Allowlist entries, reusing the cached copy when it is fresh
+ */
+export function fetchAllowlist(config: AllowlistConfig): Promise<Map<string, AllowlistEntry>> {
+  return queryClient.fetchQuery(allowlistQueryOptions(config));
+}
+
+/**
+ * Enrollment of a wallet
+ * @param entries - Loaded allowlist, or null when the pool has none
+ * @param address - Connected wallet
+ */
+export function getEnrollment(entries: Map<string, AllowlistEntry> | null, address: `0x${string}`): Enrollment {
+  if (!entries) {
+    return { status: 'open' };
+  }
+  const entry = entries.get(address.toLowerCase());
+  return entry ? { status: 'enrolled', label: entry.label } : { status: 'not-enrolled' };
+}
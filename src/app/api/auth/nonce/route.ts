@@ -0,0 +1,14 @@
+import { randomBytes } from 'crypto';
+import { handleApiRequest } from '../../poolApi';
+import { issueNonce } from '../../session';
+
+/**
+ * Start a sign-in: `GET /api/auth/nonce` returns the nonce to put in the SIWE message
+ */
+export async function GET(request: Request) {
+  return handleApiRequest(request, async () => {
+    const nonce = randomBytes(16).toString('hex');
+    await issueNonce(nonce);
+    return { nonce };
+  }, { isCacheable: false });
+}
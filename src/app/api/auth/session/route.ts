@@ -0,0 +1,22 @@
+import { handleApiRequest } from '../../poolApi';
+import { describeSession, endSession, getSession } from '../../session';
+
+/**
+ * Current sign-in: `GET /api/auth/session` returns `{ session }`, null when signed out
+ */
+export async function GET(request: Request) {
+  return handleApiRequest(request, async () => {
+    const session = await getSession();
+    return { session: session ? await describeSession(session) : null };
+  }, { isCacheable: false });
+}
+
+/**
+ * Sign out: `DELETE /api/auth/session`. The wallet link is kept.
+ */
+export async function DELETE(request: Request) {
+  return handleApiRequest(request, async () => {
+    await endSession();
+    return { session: null };
+  }, { isCacheable: false });
+}
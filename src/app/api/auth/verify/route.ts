@@ -0,0 +1,64 @@
+import { getPublicClient } from '@wagmi/core';
+import { getAddress, isHex, verifyMessage } from 'viem';
+import { parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { getSignInStatement, normalizeHandle, SIGN_IN_MESSAGE_TTL_MS } from '../../../identity';
+import { ApiError, handleApiRequest } from '../../poolApi';
+import { serverConfig } from '../../serverConfig';
+import { consumeNonce, describeSession, startSession } from '../../session';
+import { saveWalletLink } from '../../walletLinks';
+
+interface VerifyRequestBody {
+  // EIP-4361 message, exactly as signed
+  message?: unknown;
+  signature?: unknown;
+  // Course handle to link, or null to only sign in
+  handle?: unknown;
+}
+
+/**
+ * Finish a sign-in: `POST /api/auth/verify` with `{ message, signature, handle }`.
+ * Links the handle to the wallet when one is given, and starts a session.
+ */
+export async function POST(request: Request) {
+  return handleApiRequest(request, async () => {
+    const body = (await request.json().catch(() => null)) as VerifyRequestBody | null;
+    if (!body || typeof body.message !== 'string' || typeof body.signature !== 'string' || !isHex(body.signature)) {
+      throw new ApiError(400, 'INVALID_REQUEST', 'Expected a JSON body with "message" and "signature"');
+    }
+    const { message, signature } = body;
+
+    const handle = typeof body.handle === 'string' ? normalizeHandle(body.handle) : null;
+    if (typeof body.handle === 'string' && handle === null) {
+      throw new ApiError(400, 'INVALID_HANDLE', 'Handles are 2 to 32 letters, digits, "_", "." or "-"');
+    }
+
+    const fields = parseSiweMessage(message);
+    const nonce = await consumeNonce();
+    const issuedAt = fields.issuedAt?.getTime() ?? 0;
+    const isValidMessage =
+      fields.address !== undefined &&
+      fields.chainId !== undefined &&
+      fields.statement === getSignInStatement(handle) &&
+      nonce !== null &&
+      Date.now() - issuedAt <= SIGN_IN_MESSAGE_TTL_MS &&
+      validateSiweMessage({ message: fields, domain: new URL(request.url).host, nonce });
+    if (!isValidMessage || !fields.address || !fields.chainId) {
+      throw new ApiError(400, 'INVALID_MESSAGE', 'The message is expired, was not issued by this site or does not match the handle');
+    }
+
+    // Smart contract wallets need the chain they signed on; other chains are checked by ECDSA recovery only
+    const address = getAddress(fields.address);
+    const publicClient = getPublicClient(serverConfig, { chainId: fields.chainId });
+    const isValidSignature = publicClient
+      ? await publicClient.verifyMessage({ address, message, signature })
+      : await verifyMessage({ address, message, signature });
+    if (!isValidSignature) {
+      throw new ApiError(401, 'INVALID_SIGNATURE', 'The signature does not match the wallet');
+    }
+
+    if (handle !== null) {
+      await saveWalletLink({ address, handle, chainId: fields.chainId, linkedAt: new Date().toISOString() });
+    }
+    return { session: await describeSession(await startSession(address)) };
+  }, { isCacheable: false });
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Small JSON files the server keeps its state in (webhook cursors, wallet links).
+ * They need a persistent disk; on serverless hosts point them at a mounted volume.
+ */
+
+/**
+ * Read a JSON file
+ * @param path - File path
+ * @param fallback - Returned when the file does not exist yet
+ */
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace a JSON file
+ * @param path - File path
+ * @param value - Serializable value
+ */
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  // Written to a temporary file first, so a crash never leaves a truncated file
+  const temporaryFile = `${path}.tmp`;
+  await fs.writeFile(temporaryFile, JSON.stringify(value, null, 2));
+  await fs.rename(temporaryFile, path);
+}
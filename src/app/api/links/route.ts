@@ -0,0 +1,66 @@
+import { getAddress, isAddress } from 'viem';
+import { ApiError, handleApiRequest } from '../poolApi';
+import { getSession, isOrganizer } from '../session';
+import { confirmWalletLink, deleteWalletLink, getWalletLinks } from '../walletLinks';
+
+/**
+ * @throws ApiError 401 when signed out, 403 for wallets that are not organizers
+ */
+async function requireOrganizer(): Promise<void> {
+  const session = await getSession();
+  if (!session) {
+    throw new ApiError(401, 'NOT_SIGNED_IN', 'Sign in with an organizer wallet first');
+  }
+  if (!isOrganizer(session.address)) {
+    throw new ApiError(403, 'NOT_ORGANIZER', 'This wallet is not an organizer');
+  }
+}
+
+/**
+ * Wallet of a `{ address }` request body
+ * @throws ApiError 400 if the body has no valid address
+ */
+async function readAddress(request: Request): Promise<`0x${string}`> {
+  const body = (await request.json().catch(() => null)) as { address?: unknown } | null;
+  if (!body || typeof body.address !== 'string' || !isAddress(body.address, { strict: false })) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Expected a JSON body with an "address"');
+  }
+  return getAddress(body.address);
+}
+
+/**
+ * Every wallet-to-handle link, for organizers: `GET /api/links` returns `{ links }`
+ */
+export async function GET(request: Request) {
+  return handleApiRequest(request, async () => {
+    await requireOrganizer();
+    return { links: await getWalletLinks() };
+  }, { isCacheable: false });
+}
+
+/**
+ * Confirm a wallet's claim on a handle another wallet already holds: `POST /api/links` with `{ address }`
+ */
+export async function POST(request: Request) {
+  return handleApiRequest(request, async () => {
+    await requireOrganizer();
+    const link = await confirmWalletLink(await readAddress(request));
+    if (!link) {
+      throw new ApiError(404, 'LINK_NOT_FOUND', 'This wallet has no linked handle');
+    }
+    return { link };
+  }, { isCacheable: false });
+}
+
+/**
+ * Remove a wallet's link, e.g. to reject its claim: `DELETE /api/links` with `{ address }`
+ */
+export async function DELETE(request: Request) {
+  return handleApiRequest(request, async () => {
+    await requireOrganizer();
+    if (!(await deleteWalletLink(await readAddress(request)))) {
+      throw new ApiError(404, 'LINK_NOT_FOUND', 'This wallet has no linked handle');
+    }
+    return { link: null };
+  }, { isCacheable: false });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError, parseAddressParam } from './poolApi';
+
+function parseError(value: string): unknown {
+  try {
+    parseAddressParam(value, 'wallet');
+  } catch (error) {
+    return error;
+  }
+  return null;
+}
+
+describe('parseAddressParam', () => {
+  it('checksums a percent-encoded address', () => {
+    expect(parseAddressParam('%200x000000000000000000000000000000000000dead', 'wallet')).toBe(
+      '0x000000000000000000000000000000000000dEaD'
+    );
+  });
+
+  it.each(['0x1234', 'vitalik.eth', '%E0%A4%A', '%'])('rejects %s with a 400', (value) => {
+    const error = parseError(value);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 400, code: 'INVALID_ADDRESS' });
+  });
+});
@@ -0,0 +1,178 @@
+import { getAddress, isAddress } from 'viem';
+import { createReadOnlyContractUtils, SecurityDepositPoolUtils } from '../contracts';
+import { DEPLOYMENTS, Deployment } from '../deployments';
+import { classifyError, describeDepositError } from '../errors';
+import { consumeRateLimit, getClientKey } from './rateLimit';
+import { serverConfig, serverQueryClient } from './serverConfig';
+
+/**
+ * Shared plumbing of the API routes: input validation, pool lookup,
+ * short-lived caching and JSON responses.
+ *
+ * Errors are returned as `{ "error": { "code", "message" } }`; amounts are
+ * serialized as decimal strings in the token's smallest unit.
+ */
+
+// Responses are reused this long, in memory and by shared caches
+const CACHE_SECONDS = 15;
+
+/**
+ * Request error with the HTTP status and code to respond with
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Validate an address path parameter
+ * @param value - Raw parameter
+ * @param name - Parameter name, for the error message
+ * @returns Checksummed address
+ * @throws ApiError 400 if it is not an address
+ */
+export function parseAddressParam(value: string, name: string): `0x${string}` {
+  let address: string;
+  try {
+    address = decodeURIComponent(value).trim();
+  } catch {
+    // Malformed percent-encoding
+    throw new ApiError(400, 'INVALID_ADDRESS', `"${name}" must be a 0x address`);
+  }
+  if (!isAddress(address, { strict: false })) {
+    throw new ApiError(400, 'INVALID_ADDRESS', `"${name}" must be a 0x address`);
+  }
+  return getAddress(address);
+}
+
+/**
+ * Find a registered pool by address; `?chainId=` picks one when the address is deployed on several chains
+ * @throws ApiError 400 on a bad chain id, 404 for unknown pools, 409 when the chain is ambiguous
+ */
+export function findPoolDeployment(poolAddress: `0x${string}`, chainIdParam: string | null): Deployment {
+  const chainId = chainIdParam === null ? null : Number(chainIdParam);
+  if (chainId !== null && !Number.isInteger(chainId)) {
+    throw new ApiError(400, 'INVALID_CHAIN_ID', '"chainId" must be an integer');
+  }
+
+  const matches = DEPLOYMENTS.filter((item) =>
+    item.poolAddress.toLowerCase() === poolAddress.toLowerCase() && (chainId === null || item.chainId === chainId)
+  );
+  if (matches.length === 0) {
+    throw new ApiError(404, 'POOL_NOT_FOUND', `No registered pool at ${poolAddress}${chainId === null ? '' : ` on chain ${chainId}`}`);
+  }
+  if (matches.length > 1) {
+    throw new ApiError(409, 'AMBIGUOUS_POOL', `The pool is deployed on several chains; pass ?chainId=${matches.map((item) => item.chainId).join('|')}`);
+  }
+  return matches[0];
+}
+
+/**
+ * Read-only contract utils reading through the server-side RPC config and read cache
+ */
+export function getServerContractUtils(deployment: Deployment): Promise<SecurityDepositPoolUtils> {
+  return createReadOnlyContractUtils(deployment, serverConfig, serverQueryClient);
+}
+
+/**
+ * Public description of a pool, included in every response
+ */
+export function describePool(deployment: Deployment) {
+  return {
+    id: deployment.id,
+    cohort: deployment.cohort,
+    chainId: deployment.chainId,
+    address: deployment.poolAddress,
+  };
+}
+
+const responseCache = new Map<string, { expiresAt: number; body: Promise<unknown> }>();
+
+/**
+ * Reuse the result of `load` for a few seconds, sharing it between concurrent requests
+ * @param key - Cache key, unique per pool and parameters
+ */
+export function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const now = Date.now();
+  const entry = responseCache.get(key);
+  if (entry && entry.expiresAt > now) {
+    return entry.body as Promise<T>;
+  }
+
+  responseCache.forEach((item, itemKey) => {
+    if (item.expiresAt <= now) {
+      responseCache.delete(itemKey);
+    }
+  });
+  const body = load();
+  responseCache.set(key, { expiresAt: now + CACHE_SECONDS * 1000, body });
+  // Failures are not cached
+  body.catch(() => responseCache.delete(key));
+  return body;
+}
+
+/**
+ * JSON response, with bigints serialized as decimal strings
+ */
+export function jsonResponse(body: unknown, status: number, headers: Record<string, string>): Response {
+  const text = JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+  return new Response(text, { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+/**
+ * Uncached `{ error: { code, message } }` response
+ */
+export function errorResponse(status: number, code: string, message: string, headers: Record<string, string>): Response {
+  return jsonResponse({ error: { code, message } }, status, { 'Cache-Control': 'no-store', ...headers });
+}
+
+/**
+ * Run a route handler with rate limiting, caching headers and JSON error responses
+ * @param request - Incoming request
+ * @param handler - Produces the response body
+ * @param options.isCacheable - False for per-user responses, which must never be shared
+ */
+export async function handleApiRequest(
+  request: Request,
+  handler: () => Promise<unknown>,
+  { isCacheable = true }: { isCacheable?: boolean } = {}
+): Promise<Response> {
+  // Requests without a client IP are not pooled into one bucket, where a single client could block everyone
+  const clientKey = getClientKey(request);
+  const rateLimit = clientKey === null ? null : consumeRateLimit(clientKey);
+  const headers: Record<string, string> = rateLimit
+    ? { 'X-RateLimit-Limit': String(rateLimit.limit), 'X-RateLimit-Remaining': String(rateLimit.remaining) }
+    : {};
+  if (rateLimit && !rateLimit.allowed) {
+    return errorResponse(429, 'RATE_LIMITED', 'Too many requests, please retry later', {
+      ...headers,
+      'Retry-After': String(rateLimit.retryAfter),
+    });
+  }
+
+  try {
+    const body = await handler();
+    return jsonResponse(body, 200, {
+      ...headers,
+      'Cache-Control': isCacheable
+        ? `public, max-age=0, s-maxage=${CACHE_SECONDS}, stale-while-revalidate=${CACHE_SECONDS * 2}`
+        : 'no-store',
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error.status, error.code, error.message, headers);
+    }
+    console.error('Error handling API request:', error);
+    const classified = classifyError(error);
+    // Anything else failed reading the chain
+    const status = classified.code === 'CONFIGURATION_ERROR' ? 500 : 502;
+    return errorResponse(status, classified.code, describeDepositError(classified), headers);
+  }
+}
@@ -0,0 +1,34 @@
+import { cached, describePool, findPoolDeployment, getServerContractUtils, handleApiRequest, parseAddressParam } from '../../../../poolApi';
+
+interface DepositRouteContext {
+  params: Promise<{ address: string; wallet: string }>;
+}
+
+/**
+ * Deposit status of a wallet in a pool: `GET /api/pools/<pool>/deposits/<wallet>[?chainId=]`
+ */
+export async function GET(request: Request, { params }: DepositRouteContext) {
+  return handleApiRequest(request, async () => {
+    const { address, wallet } = await params;
+    const poolAddress = parseAddressParam(address, 'address');
+    const walletAddress = parseAddressParam(wallet, 'wallet');
+    const deployment = findPoolDeployment(poolAddress, new URL(request.url).searchParams.get('chainId'));
+
+    return cached(`deposits:${deployment.chainId}:${deployment.poolAddress}:${walletAddress}`, async () => {
+      const contractUtils = await getServerContractUtils(deployment);
+      const [status, token] = await Promise.all([
+        contractUtils.getDepositStatus(walletAddress),
+        contractUtils.getTokenMetadata(),
+      ]);
+      return {
+        pool: describePool(deployment),
+        token: { address: deployment.tokenAddress, ...token },
+        wallet: walletAddress,
+        hasDeposited: status.hasDeposited,
+        // Remaining deposit after any slashing (0 once withdrawn)
+        remainingDeposit: status.remainingDeposit,
+        flatDepositAmount: status.flatDepositAmount,
+      };
+    });
+  });
+}
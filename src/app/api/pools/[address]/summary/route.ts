@@ -0,0 +1,33 @@
+import { cached, describePool, findPoolDeployment, getServerContractUtils, handleApiRequest, parseAddressParam } from '../../../poolApi';
+
+interface SummaryRouteContext {
+  params: Promise<{ address: string }>;
+}
+
+/**
+ * Pool-wide state: `GET /api/pools/<pool>/summary[?chainId=]`
+ */
+export async function GET(request: Request, { params }: SummaryRouteContext) {
+  return handleApiRequest(request, async () => {
+    const { address } = await params;
+    const poolAddress = parseAddressParam(address, 'address');
+    const deployment = findPoolDeployment(poolAddress, new URL(request.url).searchParams.get('chainId'));
+
+    return cached(`summary:${deployment.chainId}:${deployment.poolAddress}`, async () => {
+      const contractUtils = await getServerContractUtils(deployment);
+      const [summary, token] = await Promise.all([
+        contractUtils.getPoolSummary(),
+        contractUtils.getTokenMetadata(),
+      ]);
+      return {
+        pool: describePool(deployment),
+        token: { address: deployment.tokenAddress, ...token },
+        flatDepositAmount: summary.flatDepositAmount,
+        courseFinalizedTime: summary.courseFinalizedTime,
+        isCourseFinalized: summary.courseFinalizedTime <= BigInt(Math.floor(Date.now() / 1000)),
+        poolBalance: summary.poolBalance,
+        totalSlashed: summary.totalSlashed,
+      };
+    });
+  });
+}
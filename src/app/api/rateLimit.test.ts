@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { consumeRateLimit, getClientKey } from './rateLimit';
+
+function requestWith(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/pools', { headers });
+}
+
+describe('getClientKey', () => {
+  it('takes the address appended by the proxy, not the ones sent by the client', () => {
+    expect(getClientKey(requestWith({ 'x-forwarded-for': '1.1.1.1, 10.0.0.1, 203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to the real IP header', () => {
+    expect(getClientKey(requestWith({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('has no key without proxy headers', () => {
+    expect(getClientKey(requestWith({}))).toBeNull();
+    expect(getClientKey(requestWith({ 'x-forwarded-for': ' ' }))).toBeNull();
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('limits each client separately within a window', () => {
+    const now = 1700000000000;
+    for (let count = 0; count < 60; count++) {
+      expect(consumeRateLimit('198.51.100.1', now).allowed).toBe(true);
+    }
+    expect(consumeRateLimit('198.51.100.1', now)).toMatchObject({ allowed: false, remaining: 0, retryAfter: 60 });
+    expect(consumeRateLimit('198.51.100.2', now).allowed).toBe(true);
+    expect(consumeRateLimit('198.51.100.1', now + 60 * 1000).allowed).toBe(true);
+  });
+});
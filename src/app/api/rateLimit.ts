@@ -0,0 +1,65 @@
+/**
+ * Fixed-window rate limit of the API routes, per client IP.
+ *
+ * Counters live in memory, so the limit applies per server instance; deployments
+ * behind several instances should also rate limit at the edge. The client IP is
+ * taken from the reverse proxy's headers, so the app must only be reachable through it.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets
+  retryAfter: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+const MAX_REQUESTS_PER_WINDOW = 60;
+// Expired windows are pruned once this many clients are tracked
+const PRUNE_THRESHOLD = 10000;
+
+const windows = new Map<string, { startedAt: number; count: number }>();
+
+/**
+ * Client IP as seen by the reverse proxy
+ * @returns The IP, or null when the request carries none (e.g. no proxy in development)
+ */
+export function getClientKey(request: Request): string | null {
+  // The proxy appends the address it saw; entries to its left come from the client and can be forged
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const lastHop = forwardedFor?.split(',').pop()?.trim();
+  if (lastHop) {
+    return lastHop;
+  }
+  return request.headers.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Count a request against its client's window
+ * @param key - Client key, see `getClientKey`
+ * @returns RateLimitResult - Whether the request may proceed, and the headers to report
+ */
+export function consumeRateLimit(key: string, now: number = Date.now()): RateLimitResult {
+  if (windows.size > PRUNE_THRESHOLD) {
+    windows.forEach((window, windowKey) => {
+      if (now - window.startedAt >= WINDOW_MS) {
+        windows.delete(windowKey);
+      }
+    });
+  }
+
+  let window = windows.get(key);
+  if (!window || now - window.startedAt >= WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    windows.set(key, window);
+  }
+  window.count += 1;
+
+  return {
+    allowed: window.count <= MAX_REQUESTS_PER_WINDOW,
+    limit: MAX_REQUESTS_PER_WINDOW,
+    remaining: Math.max(0, MAX_REQUESTS_PER_WINDOW - window.count),
+    retryAfter: Math.ceil((window.startedAt + WINDOW_MS - now) / 1000),
+  };
+}
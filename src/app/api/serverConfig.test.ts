@@ -0,0 +1,20 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { serverQueryClient } from './serverConfig';
+
+afterEach(() => {
+  vi.useRealTimers();
+  serverQueryClient.clear();
+});
+
+describe('serverQueryClient', () => {
+  it('evicts reads shortly after their last use', async () => {
+    vi.useFakeTimers();
+    for (let index = 0; index < 3; index++) {
+      await serverQueryClient.fetchQuery({ queryKey: ['deposit', index], queryFn: async () => index });
+    }
+    expect(serverQueryClient.getQueryCache().getAll()).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(31 * 1000);
+    expect(serverQueryClient.getQueryCache().getAll()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { Config, createConfig, custom, http, Transport } from '@wagmi/core';
+import { QueryClient } from '@tanstack/react-query';
+import { DEMO_CHAIN, IS_DEMO_MODE } from '../demo/demoChain';
+import { lazyDemoProvider } from '../demo/lazyDemoProvider';
+import { getDeploymentChains } from '../deployments';
+
+/**
+ * Wagmi config of the API routes, independent of the browser wallet setup.
+ *
+ * RPC endpoints come from the server-only `RPC_URLS` variable, a JSON object of
+ * chain id to URL (e.g. `{"8453":"https://..."}`), so keyed providers stay off the
+ * client bundle. Chains without an entry use their public RPC.
+ */
+
+function loadRpcUrls(): Record<string, string> {
+  if (!process.env.RPC_URLS) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(process.env.RPC_URLS);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('RPC_URLS must be a JSON object of chain id to URL');
+    }
+    return parsed as Record<string, string>;
+  } catch (error) {
+    console.error('Error reading RPC_URLS, falling back to public RPCs:', error);
+    return {};
+  }
+}
+
+const rpcUrls = loadRpcUrls();
+const chains = getDeploymentChains();
+
+export const serverConfig: Config = createConfig({
+  chains,
+  transports: Object.fromEntries(
+    chains.map((chain): [number, Transport] => [
+      chain.id,
+      IS_DEMO_MODE && chain.id === DEMO_CHAIN.id ? custom(lazyDemoProvider) : http(rpcUrls[chain.id] || undefined),
+    ])
+  ),
+  ssr: true,
+});
+
+/**
+ * Cache of the contract reads of the API routes. On the server TanStack Query keeps
+ * unused entries forever by default, and callers choose which wallets are read, so
+ * entries are dropped soon after their last use; the routes' own response cache
+ * covers repeated requests.
+ */
+export const serverQueryClient = new QueryClient({
+  defaultOptions: { queries: { gcTime: 30 * 1000 } }, // 30 seconds
+});
@@ -0,0 +1,122 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { getAddress, isAddress } from 'viem';
+import { WalletSession } from '../identity';
+import { ApiError } from './poolApi';
+import { getWalletLink } from './walletLinks';
+
+/**
+ * Sign-in sessions of the `/api/auth` routes.
+ *
+ * The nonce of a pending sign-in and the session itself live in HttpOnly cookies,
+ * so any server instance can verify them. Sessions are signed with `SESSION_SECRET`;
+ * wallets listed in `ORGANIZER_ADDRESSES` (comma-separated) may read every wallet link.
+ */
+
+export interface Session {
+  address: `0x${string}`;
+  // Unix seconds
+  expiresAt: number;
+}
+
+const NONCE_COOKIE = 'siwe-nonce';
+const SESSION_COOKIE = 'siwe-session';
+const NONCE_MAX_AGE_SECONDS = 10 * 60;
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new ApiError(503, 'AUTH_NOT_CONFIGURED', 'SESSION_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+const cookieOptions = (maxAge: number, path = '/') => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path,
+  maxAge,
+});
+
+/**
+ * Start a sign-in: a fresh nonce, remembered in a cookie until the signature is verified
+ */
+export async function issueNonce(nonce: string): Promise<void> {
+  getSessionSecret();
+  (await cookies()).set(NONCE_COOKIE, nonce, cookieOptions(NONCE_MAX_AGE_SECONDS, '/api/auth'));
+}
+
+/**
+ * Nonce of the pending sign-in; each nonce can be used once
+ * @returns The nonce, or null if no sign-in was started or it expired
+ */
+export async function consumeNonce(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const nonce = cookieStore.get(NONCE_COOKIE)?.value ?? null;
+  cookieStore.delete({ name: NONCE_COOKIE, path: '/api/auth' });
+  return nonce;
+}
+
+/**
+ * Sign a wallet in
+ * @param address - Wallet whose signature was verified
+ */
+export async function startSession(address: `0x${string}`): Promise<Session> {
+  const session: Session = { address, expiresAt: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  (await cookies()).set(SESSION_COOKIE, `${payload}.${sign(payload, getSessionSecret())}`, cookieOptions(SESSION_MAX_AGE_SECONDS));
+  return session;
+}
+
+/**
+ * Session of the current request
+ * @returns Session, or null when signed out, expired or tampered with
+ */
+export async function getSession(): Promise<Session | null> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!value) {
+    return null;
+  }
+
+  const [payload, signature = ''] = value.split('.');
+  const expected = Buffer.from(sign(payload, getSessionSecret()));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+  const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Session;
+  return session.expiresAt > Date.now() / 1000 ? session : null;
+}
+
+export async function endSession(): Promise<void> {
+  (await cookies()).delete(SESSION_COOKIE);
+}
+
+/**
+ * Whether a wallet is listed in `ORGANIZER_ADDRESSES`
+ */
+export function isOrganizer(address: `0x${string}`): boolean {
+  return (process.env.ORGANIZER_ADDRESSES ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .some((item) => isAddress(item, { strict: false }) && getAddress(item) === getAddress(address));
+}
+
+/**
+ * Session as returned to the browser
+ */
+export async function describeSession(session: Session): Promise<WalletSession> {
+  const link = await getWalletLink(session.address);
+  return {
+    address: session.address,
+    handle: link?.handle ?? null,
+    isHandlePending: link !== null && !link.isConfirmed,
+    isOrganizer: isOrganizer(session.address),
+  };
+}
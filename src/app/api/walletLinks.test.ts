@@ -0,0 +1,69 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { confirmWalletLink, deleteWalletLink, getWalletLink, getWalletLinks, saveWalletLink } from './walletLinks';
+
+const ALICE: `0x${string}` = '0x0000000000000000000000000000000000000A11';
+const MALLORY: `0x${string}` = '0x000000000000000000000000000000000000BAD0';
+
+let linksDir: string;
+let linksFile: string;
+
+const link = (address: `0x${string}`, handle: string, chainId = 8453) =>
+  ({ address, handle, chainId, linkedAt: new Date().toISOString() });
+
+beforeAll(async () => {
+  linksDir = await mkdtemp(join(tmpdir(), 'wallet-links-'));
+  linksFile = join(linksDir, 'links.json');
+  process.env.WALLET_LINKS_FILE = linksFile;
+});
+
+afterAll(async () => {
+  await rm(linksDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await rm(linksFile, { force: true });
+});
+
+describe('saveWalletLink', () => {
+  it('confirms the first wallet to link a handle', async () => {
+    expect(await saveWalletLink(link(ALICE, 'alice'))).toMatchObject({ handle: 'alice', isConfirmed: true });
+  });
+
+  it('leaves a claim on a handle held by another wallet unconfirmed', async () => {
+    await saveWalletLink(link(ALICE, 'alice'));
+    expect(await saveWalletLink(link(MALLORY, 'Alice'))).toMatchObject({ isConfirmed: false });
+    expect(await getWalletLink(ALICE)).toMatchObject({ isConfirmed: true });
+  });
+
+  it('keeps a confirmed handle confirmed when the wallet links it again', async () => {
+    await saveWalletLink(link(ALICE, 'alice'));
+    await saveWalletLink(link(MALLORY, 'alice'));
+    await confirmWalletLink(MALLORY);
+    expect(await saveWalletLink(link(MALLORY, 'alice', 1))).toMatchObject({ chainId: 1, isConfirmed: true });
+  });
+
+  it('counts links stored before confirmation existed as confirmed', async () => {
+    await writeFile(linksFile, JSON.stringify({ [ALICE.toLowerCase()]: link(ALICE, 'alice') }));
+    expect(await getWalletLinks()).toEqual([expect.objectContaining({ address: ALICE, isConfirmed: true })]);
+    expect(await saveWalletLink(link(MALLORY, 'alice'))).toMatchObject({ isConfirmed: false });
+  });
+});
+
+describe('organizer review', () => {
+  it('confirms or removes a claim', async () => {
+    await saveWalletLink(link(ALICE, 'alice'));
+    await saveWalletLink(link(MALLORY, 'alice'));
+
+    expect(await confirmWalletLink(MALLORY)).toMatchObject({ isConfirmed: true });
+    expect(await deleteWalletLink(MALLORY)).toBe(true);
+    expect(await getWalletLink(MALLORY)).toBeNull();
+  });
+
+  it('reports wallets without a link', async () => {
+    expect(await confirmWalletLink(MALLORY)).toBeNull();
+    expect(await deleteWalletLink(MALLORY)).toBe(false);
+  });
+});
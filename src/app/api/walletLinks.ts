@@ -0,0 +1,104 @@
+import { WalletLink } from '../identity';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+/**
+ * Wallet-to-handle links created by Sign-In with Ethereum, stored in a JSON file
+ * (`WALLET_LINKS_FILE`) keyed by lowercased address. A wallet has one handle; linking
+ * it again replaces the previous one.
+ *
+ * The first wallet to link a handle holds it. A handle may own several wallets, but
+ * later claims by other wallets stay unconfirmed until an organizer confirms them,
+ * so nobody can pass their wallet off as another participant's.
+ */
+
+// Links stored before confirmation existed have no `isConfirmed`, and count as confirmed
+type WalletLinkStore = Record<string, Omit<WalletLink, 'isConfirmed'> & { isConfirmed?: boolean }>;
+
+function getLinksFile(): string {
+  return process.env.WALLET_LINKS_FILE || '.wallet-links.json';
+}
+
+async function readStore(): Promise<Record<string, WalletLink>> {
+  const store = await readJsonFile<WalletLinkStore>(getLinksFile(), {});
+  return Object.fromEntries(
+    Object.entries(store).map(([key, link]) => [key, { ...link, isConfirmed: link.isConfirmed ?? true }])
+  );
+}
+
+// Writes are chained so concurrent sign-ins never overwrite each other
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function updateStore<T>(update: (store: Record<string, WalletLink>) => T): Promise<T> {
+  const write = pendingWrite.then(async () => {
+    const store = await readStore();
+    const result = update(store);
+    await writeJsonFile(getLinksFile(), store);
+    return result;
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Every stored link, oldest first
+ */
+export async function getWalletLinks(): Promise<WalletLink[]> {
+  return Object.values(await readStore()).sort((a, b) => a.linkedAt.localeCompare(b.linkedAt));
+}
+
+/**
+ * Link of a single wallet
+ * @returns WalletLink, or null if the wallet has not linked a handle
+ */
+export async function getWalletLink(address: `0x${string}`): Promise<WalletLink | null> {
+  return (await readStore())[address.toLowerCase()] ?? null;
+}
+
+/**
+ * Store a link, replacing any previous link of the wallet
+ * @returns Promise<WalletLink> - The stored link, unconfirmed if another wallet already holds the handle
+ */
+export function saveWalletLink(link: Omit<WalletLink, 'isConfirmed'>): Promise<WalletLink> {
+  return updateStore((store) => {
+    const key = link.address.toLowerCase();
+    const handle = link.handle.toLowerCase();
+    const previous = store[key];
+    const isHeldByOtherWallet = Object.entries(store).some(
+      ([otherKey, other]) => otherKey !== key && other.isConfirmed && other.handle.toLowerCase() === handle
+    );
+    // Relinking a confirmed handle, e.g. from another chain, keeps it confirmed
+    const isConfirmed = !isHeldByOtherWallet || (previous?.isConfirmed === true && previous.handle.toLowerCase() === handle);
+    store[key] = { ...link, isConfirmed };
+    return store[key];
+  });
+}
+
+/**
+ * Confirm an unconfirmed link, on an organizer's behalf
+ * @returns Promise<WalletLink | null> - The confirmed link, or null if the wallet has none
+ */
+export function confirmWalletLink(address: `0x${string}`): Promise<WalletLink | null> {
+  return updateStore((store) => {
+    const link = store[address.toLowerCase()];
+    if (!link) {
+      return null;
+    }
+    link.isConfirmed = true;
+    return link;
+  });
+}
+
+/**
+ * Remove the link of a wallet, e.g. a claim an organizer rejected
+ * @returns Promise<boolean> - False if the wallet had no link
+ */
+export function deleteWalletLink(address: `0x${string}`): Promise<boolean> {
+  return updateStore((store) => {
+    const key = address.toLowerCase();
+    if (!store[key]) {
+      return false;
+    }
+    delete store[key];
+    return true;
+  });
+}
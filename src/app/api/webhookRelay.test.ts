@@ -0,0 +1,180 @@
+import { createHmac } from 'crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Deployment } from '../deployments';
+import { runWebhookRelay, WebhookPayload } from './webhookRelay';
+
+const SECRET = 'test-secret';
+
+// Chain reads of the relay, served from a fixed set of pool events
+const { DEPLOYMENT, LOGS, publicClient, STUDENTS } = vi.hoisted(() => {
+  const pool: `0x${string}` = '0x00000000000000000000000000000000000D3F05';
+  const STUDENTS: `0x${string}`[] = [
+    '0x0000000000000000000000000000000000000A11',
+    '0x0000000000000000000000000000000000000B0b',
+    '0x0000000000000000000000000000000000000CA7',
+  ];
+  const DEPLOYMENT: Deployment = {
+    id: 'test',
+    cohort: 'Test cohort',
+    chainId: 31337,
+    poolAddress: pool,
+    tokenAddress: '0x0000000000000000000000000000000000005d70',
+    startBlock: BigInt(1),
+    courseStartTime: null,
+    allowlist: null,
+  };
+
+  const LOGS = [
+    { eventName: 'Deposited', args: { student: STUDENTS[0], amount: BigInt(50000000) }, blockNumber: BigInt(2), transactionHash: '0xd1', logIndex: 3 },
+    { eventName: 'Withdrawn', args: { student: STUDENTS[0] }, blockNumber: BigInt(5), transactionHash: '0xd2', logIndex: 0 },
+    { eventName: 'WithdrawnMany', args: { students: [STUDENTS[1], STUDENTS[2]] }, blockNumber: BigInt(5), transactionHash: '0xd3', logIndex: 1 },
+    { eventName: 'Slashed', args: { student: STUDENTS[1], amount: BigInt(1) }, blockNumber: BigInt(6), transactionHash: '0xd4', logIndex: 0 },
+  ];
+  const publicClient = {
+    getBlockNumber: async () => BigInt(10),
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: BigInt(1700000000) + blockNumber }),
+    getContractEvents: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+      LOGS.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+  };
+
+  return { DEPLOYMENT, LOGS, publicClient, STUDENTS };
+});
+
+vi.mock('@wagmi/core', () => ({ getPublicClient: () => publicClient }));
+vi.mock('./serverConfig', () => ({ serverConfig: {} }));
+vi.mock('../deployments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../deployments')>()),
+  DEPLOYMENTS: [DEPLOYMENT],
+}));
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local receiver: records every request and fails the first `failuresLeft` of them
+let server: Server;
+let received: ReceivedRequest[] = [];
+let failuresLeft = 0;
+let stateDir: string;
+let stateFile: string;
+
+beforeAll(async () => {
+  // Failed deliveries are logged; the tests check them through the relay result instead
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      if (failuresLeft > 0) {
+        failuresLeft -= 1;
+        response.writeHead(500).end();
+      } else {
+        response.writeHead(204).end();
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  stateDir = await mkdtemp(join(tmpdir(), 'webhook-relay-'));
+  stateFile = join(stateDir, 'state.json');
+  process.env.WEBHOOK_URLS = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.WEBHOOK_SECRET = SECRET;
+  process.env.WEBHOOK_STATE_FILE = stateFile;
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await new Promise((resolve) => server.close(resolve));
+  await rm(stateDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  received = [];
+  failuresLeft = 0;
+  await rm(stateFile, { force: true });
+});
+
+const payloadIds = () => received.map((request) => (JSON.parse(request.body) as WebhookPayload).id);
+
+describe('runWebhookRelay', () => {
+  it('signs one payload per deposit and per refunded student', async () => {
+    const result = await runWebhookRelay();
+
+    expect(result).toMatchObject({ delivered: 4, failed: 0, dropped: 0, pending: 0 });
+    expect(payloadIds()).toEqual(['0xd1:3', '0xd2:0', '0xd3:1:0', '0xd3:1:1']);
+
+    for (const { headers, body } of received) {
+      const expected = createHmac('sha256', SECRET).update(`${headers['x-webhook-timestamp']}.${body}`).digest('hex');
+      expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+      expect(headers['x-webhook-id']).toBe(JSON.parse(body).id);
+    }
+
+    const [deposit, , batchRefund] = received.map((request) => JSON.parse(request.body) as WebhookPayload);
+    expect(deposit).toMatchObject({ type: 'deposit', student: STUDENTS[0], amount: '50000000', blockNumber: '2', timestamp: 1700000002 });
+    expect(batchRefund).toMatchObject({ type: 'refund', student: STUDENTS[1], amount: null, transactionHash: '0xd3', logIndex: 1 });
+  });
+
+  it('retries a failed delivery within the run', async () => {
+    failuresLeft = 2;
+    const result = await runWebhookRelay();
+
+    expect(result).toMatchObject({ delivered: 4, failed: 0, pending: 0 });
+    expect(payloadIds()).toEqual(['0xd1:3', '0xd1:3', '0xd1:3', '0xd2:0', '0xd3:1:0', '0xd3:1:1']);
+  });
+
+  it('keeps deliveries queued with backoff when the receiver stays down', async () => {
+    failuresLeft = 3;
+    const first = await runWebhookRelay();
+    // The first delivery failed three times; the rest of the receiver's queue waits for a later run
+    expect(first).toMatchObject({ delivered: 0, failed: 1, pending: 4 });
+    expect(received).toHaveLength(3);
+
+    const second = await runWebhookRelay();
+    expect(second).toMatchObject({ delivered: 3, failed: 0, pending: 1 });
+    expect(payloadIds().slice(3)).toEqual(['0xd2:0', '0xd3:1:0', '0xd3:1:1']);
+
+    const state = JSON.parse(await readFile(stateFile, 'utf8'));
+    expect(state.pending).toHaveLength(1);
+    expect(state.pending[0]).toMatchObject({ attempts: 3, payload: { id: '0xd1:3' } });
+    expect(state.pending[0].nextAttemptAt).toBeGreaterThan(Date.now());
+  });
+
+  it('does not resend delivered events when blocks are scanned again', async () => {
+    await runWebhookRelay();
+    expect(received).toHaveLength(4);
+
+    // Rewind the cursor, as after a crash between delivering and saving it
+    const state = JSON.parse(await readFile(stateFile, 'utf8'));
+    state.cursors = {};
+    await writeFile(stateFile, JSON.stringify(state));
+
+    const result = await runWebhookRelay();
+    expect(result).toMatchObject({ delivered: 0, pending: 0 });
+    expect(received).toHaveLength(4);
+  });
+
+  it('spreads a large backlog over several runs', async () => {
+    const students = Array.from({ length: 60 }, (_, index) => `0x${(index + 1).toString(16).padStart(40, '0')}` as `0x${string}`);
+    LOGS.push({ eventName: 'WithdrawnMany', args: { students }, blockNumber: BigInt(8), transactionHash: '0xd5', logIndex: 0 });
+    try {
+      const first = await runWebhookRelay();
+      expect(first).toMatchObject({ delivered: 50, pending: 14 });
+      const state = JSON.parse(await readFile(stateFile, 'utf8'));
+      expect(state.pending).toHaveLength(14);
+
+      const second = await runWebhookRelay();
+      expect(second).toMatchObject({ delivered: 14, pending: 0 });
+      expect(new Set(payloadIds()).size).toBe(64);
+    } finally {
+      LOGS.pop();
+    }
+  });
+});
@@ -0,0 +1,331 @@
+import { createHmac } from 'crypto';
+import { getPublicClient } from '@wagmi/core';
+import { SecurityDepositPool__factory } from '../abi';
+import { DEPLOYMENTS, Deployment } from '../deployments';
+import { LOG_CHUNK_SIZE } from '../logScan';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { describePool } from './poolApi';
+import { serverConfig } from './serverConfig';
+
+/**
+ * Outbound webhooks for new deposits and refunds.
+ *
+ * Each run scans every registered pool from its stored cursor block, queues one
+ * delivery per event and webhook URL, and POSTs a signed JSON payload. Deliveries
+ * that keep failing stay queued and are retried with backoff on later runs; events
+ * are deduplicated by their id, so rescanning is harmless.
+ *
+ * Cursors and the queue are stored in a JSON file (`WEBHOOK_STATE_FILE`), which
+ * needs a persistent disk. Runs are triggered through `/api/webhooks/relay`.
+ */
+
+export type WebhookEventType = 'deposit' | 'refund';
+
+export interface WebhookPayload {
+  // Unique per event: `<transactionHash>:<logIndex>`, plus `:<studentIndex>` for batch refunds (`withdrawMany`)
+  id: string;
+  type: WebhookEventType;
+  pool: ReturnType<typeof describePool>;
+  student: `0x${string}`;
+  // Deposited amount in the token's smallest unit; null for refunds, whose event carries no amount
+  amount: string | null;
+  transactionHash: `0x${string}`;
+  logIndex: number;
+  blockNumber: string;
+  // Unix seconds of the block
+  timestamp: number;
+}
+
+interface PendingDelivery {
+  url: string;
+  payload: WebhookPayload;
+  attempts: number;
+  // Unix milliseconds
+  nextAttemptAt: number;
+}
+
+interface RelayState {
+  // Last scanned block per pool, keyed by `chainId:poolAddress`
+  cursors: Record<string, string>;
+  // Recently delivered `url|eventId` keys, oldest first
+  delivered: string[];
+  pending: PendingDelivery[];
+}
+
+export interface RelayResult {
+  scanned: { pool: string; fromBlock: string; toBlock: string; events: number }[];
+  delivered: number;
+  // Deliveries that failed in this run and stay queued
+  failed: number;
+  // Deliveries given up after MAX_ATTEMPTS
+  dropped: number;
+  pending: number;
+}
+
+interface RelaySettings {
+  urls: string[];
+  secret: string;
+  stateFile: string;
+  confirmations: bigint;
+}
+
+// Bounds the work of one run; the cursor carries on next time
+const MAX_CHUNKS_PER_RUN = 25;
+// Attempts within a run, with a short pause in between
+const ATTEMPTS_PER_RUN = 3;
+const RETRY_PAUSE_MS = 500;
+// Across runs, failed deliveries back off exponentially up to an hour and are dropped after this many attempts
+const MAX_ATTEMPTS = 12;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Bounds the deliveries of one run, so it ends well within a scheduler's request timeout; the rest waits for the next run
+const MAX_DELIVERIES_PER_RUN = 50;
+const DELIVERY_BUDGET_MS = 30 * 1000;
+// Size of the dedupe window
+const MAX_DELIVERED_KEYS = 10000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Relay settings from the server environment
+ * @returns RelaySettings, or null when no webhook URL is configured
+ */
+export function getRelaySettings(): RelaySettings | null {
+  const urls = (process.env.WEBHOOK_URLS ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+  if (urls.length === 0) {
+    return null;
+  }
+  if (!process.env.WEBHOOK_SECRET) {
+    throw new Error('WEBHOOK_SECRET is required to sign webhook payloads');
+  }
+  const confirmations = process.env.WEBHOOK_CONFIRMATIONS || '0';
+  if (!/^\d+$/.test(confirmations)) {
+    throw new Error('WEBHOOK_CONFIRMATIONS must be a non-negative integer');
+  }
+  return {
+    urls,
+    secret: process.env.WEBHOOK_SECRET,
+    stateFile: process.env.WEBHOOK_STATE_FILE || '.webhook-relay-state.json',
+    confirmations: BigInt(confirmations),
+  };
+}
+
+/**
+ * Signature of a payload: hex HMAC-SHA256 of `<timestamp>.<body>` with the shared secret
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POST a payload once
+ * @returns Promise<boolean> - True if the receiver answered with a 2xx status
+ */
+async function postWebhook(url: string, payload: WebhookPayload, secret: string): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Receiver responded with HTTP ${response.status}`);
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error delivering webhook ${payload.id} to ${url}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Scan a pool from its cursor and queue a delivery per new event and URL
+ */
+async function scanDeployment(
+  deployment: Deployment,
+  state: RelayState,
+  settings: RelaySettings
+): Promise<RelayResult['scanned'][number] | null> {
+  const publicClient = getPublicClient(serverConfig, { chainId: deployment.chainId });
+  if (!publicClient) {
+    throw new Error(`No RPC client for chain ${deployment.chainId}`);
+  }
+
+  const cursorKey = `${deployment.chainId}:${deployment.poolAddress.toLowerCase()}`;
+  const cursor = state.cursors[cursorKey];
+  const fromBlock = cursor === undefined ? deployment.startBlock : BigInt(cursor) + BigInt(1);
+  const safeBlock = (await publicClient.getBlockNumber()) - settings.confirmations;
+  if (fromBlock > safeBlock) {
+    return null;
+  }
+  const lastBlock = fromBlock + LOG_CHUNK_SIZE * BigInt(MAX_CHUNKS_PER_RUN) - BigInt(1);
+  const toBlock = lastBlock < safeBlock ? lastBlock : safeBlock;
+
+  const queued = new Set([
+    ...state.delivered,
+    ...state.pending.map((delivery) => `${delivery.url}|${delivery.payload.id}`),
+  ]);
+  const blockTimestamps = new Map<bigint, number>();
+  let eventCount = 0;
+
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += LOG_CHUNK_SIZE) {
+    const chunkEnd = chunkStart + LOG_CHUNK_SIZE - BigInt(1) < toBlock ? chunkStart + LOG_CHUNK_SIZE - BigInt(1) : toBlock;
+    const logs = await publicClient.getContractEvents({
+      address: deployment.poolAddress,
+      abi: SecurityDepositPool__factory.abi,
+      fromBlock: chunkStart,
+      toBlock: chunkEnd,
+      strict: true,
+    });
+
+    for (const log of logs) {
+      const eventId = `${log.transactionHash}:${log.logIndex}`;
+      // One event per student; a batch refund covers several
+      let events: Pick<WebhookPayload, 'id' | 'type' | 'student' | 'amount'>[];
+      if (log.eventName === 'Deposited') {
+        events = [{ id: eventId, type: 'deposit', student: log.args.student, amount: log.args.amount.toString() }];
+      } else if (log.eventName === 'Withdrawn') {
+        events = [{ id: eventId, type: 'refund', student: log.args.student, amount: null }];
+      } else if (log.eventName === 'WithdrawnMany') {
+        events = log.args.students.map((student, index) => ({ id: `${eventId}:${index}`, type: 'refund', student, amount: null }));
+      } else {
+        continue;
+      }
+
+      if (!blockTimestamps.has(log.blockNumber)) {
+        const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
+        blockTimestamps.set(log.blockNumber, Number(block.timestamp));
+      }
+      for (const event of events) {
+        const payload: WebhookPayload = {
+          ...event,
+          pool: describePool(deployment),
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+          blockNumber: log.blockNumber.toString(),
+          timestamp: blockTimestamps.get(log.blockNumber) as number,
+        };
+        eventCount += 1;
+
+        for (const url of settings.urls) {
+          if (!queued.has(`${url}|${payload.id}`)) {
+            queued.add(`${url}|${payload.id}`);
+            state.pending.push({ url, payload, attempts: 0, nextAttemptAt: 0 });
+          }
+        }
+      }
+    }
+
+    // Events are queued before the cursor moves, so nothing is skipped after a crash
+    state.cursors[cursorKey] = chunkEnd.toString();
+    await writeJsonFile(settings.stateFile, state);
+  }
+
+  return { pool: cursorKey, fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), events: eventCount };
+}
+
+/**
+ * Deliver the queued payloads that are due, oldest first, within the per-run limits.
+ * The state is saved after every delivery, so an interrupted run never resends what it delivered.
+ */
+async function deliverPending(state: RelayState, settings: RelaySettings): Promise<Pick<RelayResult, 'delivered' | 'failed' | 'dropped'>> {
+  const result = { delivered: 0, failed: 0, dropped: 0 };
+  const queue = state.pending;
+  const remaining: PendingDelivery[] = [];
+  // A receiver that is down fails every delivery; skip the rest of its queue for this run
+  const failingUrls = new Set<string>();
+  const deadline = Date.now() + DELIVERY_BUDGET_MS;
+  let handled = 0;
+
+  for (let index = 0; index < queue.length; index++) {
+    const delivery = queue[index];
+    if (delivery.nextAttemptAt > Date.now() || failingUrls.has(delivery.url)) {
+      remaining.push(delivery);
+      continue;
+    }
+    if (handled >= MAX_DELIVERIES_PER_RUN || Date.now() >= deadline) {
+      remaining.push(...queue.slice(index));
+      break;
+    }
+    handled += 1;
+
+    let isDelivered = false;
+    for (let attempt = 0; attempt < ATTEMPTS_PER_RUN && !isDelivered; attempt++) {
+      if (attempt > 0) {
+        // Retries past the budget wait for the next run instead
+        if (Date.now() >= deadline) {
+          break;
+        }
+        await sleep(RETRY_PAUSE_MS * 2 ** (attempt - 1));
+      }
+      delivery.attempts += 1;
+      isDelivered = await postWebhook(delivery.url, delivery.payload, settings.secret);
+    }
+
+    if (isDelivered) {
+      result.delivered += 1;
+      state.delivered.push(`${delivery.url}|${delivery.payload.id}`);
+    } else if (delivery.attempts >= MAX_ATTEMPTS) {
+      result.dropped += 1;
+      console.error(`Dropping webhook ${delivery.payload.id} to ${delivery.url} after ${delivery.attempts} attempts`);
+    } else {
+      result.failed += 1;
+      failingUrls.add(delivery.url);
+      delivery.nextAttemptAt = Date.now() + Math.min(MAX_BACKOFF_MS, 30 * 1000 * 2 ** (delivery.attempts / ATTEMPTS_PER_RUN));
+      remaining.push(delivery);
+    }
+
+    state.pending = [...remaining, ...queue.slice(index + 1)];
+    state.delivered = state.delivered.slice(-MAX_DELIVERED_KEYS);
+    await writeJsonFile(settings.stateFile, state);
+  }
+
+  state.pending = remaining;
+  return result;
+}
+
+let activeRun: Promise<RelayResult> | null = null;
+
+/**
+ * Scan every registered pool and deliver new events; concurrent calls share one run
+ * @returns Promise<RelayResult> - What was scanned and delivered
+ * @throws Error if the relay is not configured or a pool cannot be scanned
+ */
+export function runWebhookRelay(): Promise<RelayResult> {
+  if (!activeRun) {
+    activeRun = (async () => {
+      const settings = getRelaySettings();
+      if (!settings) {
+        throw new Error('WEBHOOK_URLS is not configured');
+      }
+      const state = await readJsonFile<RelayState>(settings.stateFile, { cursors: {}, delivered: [], pending: [] });
+
+      const scanned: RelayResult['scanned'] = [];
+      for (const deployment of DEPLOYMENTS) {
+        try {
+          const result = await scanDeployment(deployment, state, settings);
+          if (result) {
+            scanned.push(result);
+          }
+        } catch (error) {
+          // Other pools still relay; this one resumes from its cursor next run
+          console.error(`Error scanning pool ${deployment.id} for webhooks:`, error);
+        }
+      }
+
+      const deliveries = await deliverPending(state, settings);
+      return { scanned, ...deliveries, pending: state.pending.length };
+    })().finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
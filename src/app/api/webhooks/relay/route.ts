@@ -0,0 +1,35 @@
+import { timingSafeEqual } from 'crypto';
+import { errorResponse, jsonResponse } from '../../poolApi';
+import { getRelaySettings, runWebhookRelay } from '../../webhookRelay';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+// Constant-time comparison, so response timing does not reveal how much of the token matched
+function isAuthorized(request: Request, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Run the webhook relay once: `GET|POST /api/webhooks/relay` with `Authorization: Bearer <CRON_SECRET>`.
+ * Meant to be called by a scheduler (e.g. Vercel Cron) every minute or so.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || !isAuthorized(request, secret)) {
+    return errorResponse(401, 'UNAUTHORIZED', 'A valid CRON_SECRET bearer token is required', NO_STORE);
+  }
+
+  try {
+    if (!getRelaySettings()) {
+      return errorResponse(503, 'WEBHOOKS_NOT_CONFIGURED', 'WEBHOOK_URLS is not configured', NO_STORE);
+    }
+    return jsonResponse(await runWebhookRelay(), 200, NO_STORE);
+  } catch (error) {
+    console.error('Error running webhook relay:', error);
+    return errorResponse(500, 'RELAY_FAILED', error instanceof Error ? error.message : 'Webhook relay failed', NO_STORE);
+  }
+}
+
+export const POST = GET;
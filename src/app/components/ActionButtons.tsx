@@ -0,0 +1,202 @@
+'use client';
+
+import { FeeEstimates } from '../hooks/useFeeEstimates';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount, TokenMetadata } from '../token';
+import { combineFeeEstimates, FeeNote } from './FeeNote';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface ActionButtonsProps {
+  approvalStatus: 'idle' | 'pending' | 'approved' | 'failed';
+  depositStatus: 'idle' | 'pending' | 'success' | 'failed';
+  isBatchAvailable: boolean;
+  // Deposit token and amount, null until read from the chain
+  token: TokenMetadata | null;
+  depositAmount: bigint | null;
+  // Network fee of each step; a step the wallet cannot pay for is blocked
+  fees: FeeEstimates;
+  onApprove: () => void;
+  onDeposit: () => void;
+  onApproveAndDeposit: () => void;
+}
+
+export const ActionButtons = ({
+  approvalStatus,
+  depositStatus,
+  isBatchAvailable,
+  token,
+  depositAmount,
+  fees,
+  onApprove,
+  onDeposit,
+  onApproveAndDeposit,
+}: ActionButtonsProps) => {
+  const { locale, t } = useI18n();
+
+  // Determine button states based on transaction states
+  const isApprovalPending = approvalStatus === 'pending';
+  const isApprovalCompleted = approvalStatus === 'approved';
+  const isDepositPending = depositStatus === 'pending';
+  const isAnyTransactionPending = isApprovalPending || isDepositPending;
+  const symbol = token?.symbol ?? t.common.token;
+  const depositAmountText = token && depositAmount !== null ? formatTokenAmount(depositAmount, token, locale) : null;
+
+  // Steps the wallet cannot pay the network fee for
+  const isApproveFeeUnaffordable = fees.approve?.isAffordable === false;
+  const isDepositFeeUnaffordable = fees.deposit?.isAffordable === false;
+
+  // Approve button state logic
+  const isApproveButtonDisabled = isAnyTransactionPending || isApprovalCompleted || isApproveFeeUnaffordable;
+  const approveButtonText = isApprovalPending
+    ? t.actions.approving
+    : isApprovalCompleted
+      ? t.actions.approved
+      : t.actions.approve(symbol);
+
+  // Deposit button state logic  
+  const isDepositButtonDisabled = !isApprovalCompleted || isDepositPending || isDepositFeeUnaffordable;
+  const depositButtonText = isDepositPending ? t.common.processing : t.actions.deposit(depositAmountText);
+
+  // Button styling based on state
+  const getButtonClassName = (isDisabled: boolean, isPending: boolean, isCompleted: boolean = false) => {
+    const baseClasses = "w-full max-w-[300px] py-4 px-6 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center shadow-lg cursor-pointer";
+
+    if (isCompleted) {
+      // Completed state (approved)
+      return `${baseClasses} bg-green-600/20 text-green-400 border border-green-600 cursor-not-allowed`;
+    } else if (isDisabled && !isPending) {
+      // Disabled state (not pending)
+      return `${baseClasses} bg-gray-700/50 text-gray-500 border border-gray-700 cursor-not-allowed`;
+    } else if (isPending) {
+      // Loading state
+      return `${baseClasses} bg-blue-600 text-white border border-blue-600 cursor-not-allowed`;
+    } else {
+      // Active state
+      return `${baseClasses} bg-slate-700 text-white border border-slate-600 hover:bg-slate-600 hover:border-slate-500`;
+    }
+  };
+
+  // One-click flow: approve and deposit in a single EIP-5792 batch
+  if (isBatchAvailable && !isApprovalCompleted) {
+    const batchFee = combineFeeEstimates([fees.approve, fees.deposit]);
+    const isBatchButtonDisabled = isAnyTransactionPending || batchFee?.isAffordable === false;
+    const batchButtonText = isApprovalPending && isDepositPending
+      ? t.common.processing
+      : isApprovalPending
+        ? t.actions.approving
+        : t.actions.approveAndDeposit(depositAmountText);
+
+    return (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        alignItems: `center`
+      }}>
+        <button
+          onClick={onApproveAndDeposit}
+          disabled={isBatchButtonDisabled}
+          className={getButtonClassName(isBatchButtonDisabled, isAnyTransactionPending)}
+          aria-label={t.common.a11yState(t.actions.a11yApproveAndDeposit, isBatchButtonDisabled)}
+        >
+          {isAnyTransactionPending && <LoadingSpinner className="h-5 w-5 text-white mr-2" />}
+          {batchButtonText}
+        </button>
+        <span className="text-gray-400 text-xs text-center">
+          {t.actions.batchNote}
+        </span>
+        <FeeNote estimate={batchFee} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '12px',
+      alignItems: `center`
+    }}>
+      {/* Progress Header */}
+      {/* Step Progress Indicator */}
+      <div className="flex items-center justify-center space-x-4 mb-6" style={{
+        gap: `4px`,
+      }}>
+        <div className="flex items-center" style={{
+          gap: `4px`,
+        }}>
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${isApprovalCompleted ? 'bg-green-600 text-white' :
+            isApprovalPending ? 'bg-blue-600 text-white' :
+              'bg-gray-700 text-gray-400'
+            }`}>
+            {isApprovalCompleted ? '✓' : '1'}
+          </div>
+          <span className={`ml-2 text-sm font-medium ${isApprovalCompleted ? 'text-green-400' :
+            isApprovalPending ? 'text-blue-400' :
+              'text-gray-400'
+            }`}>
+            {t.actions.stepApprove}
+          </span>
+        </div>
+
+        <div className={`w-8 h-0.5 ${isApprovalCompleted ? 'bg-green-600' : 'bg-gray-700'}`}></div>
+
+        <div className="flex items-center" style={{
+          gap: `4px`,
+        }}>
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${isDepositPending ? 'bg-blue-600 text-white' :
+            isApprovalCompleted ? 'bg-gray-600 text-white' :
+              'bg-gray-700 text-gray-400'
+            }`}>
+            2
+          </div>
+          <span className={`ml-2 text-sm font-medium ${isDepositPending ? 'text-blue-400' :
+            isApprovalCompleted ? 'text-gray-300' :
+              'text-gray-400'
+            }`}>
+            {t.actions.stepDeposit}
+          </span>
+        </div>
+      </div>
+
+      {/* Approve button */}
+      <button
+        onClick={onApprove}
+        disabled={isApproveButtonDisabled}
+        className={`${getButtonClassName(isApproveButtonDisabled, isApprovalPending, isApprovalCompleted)}`}
+        aria-label={t.common.a11yState(t.actions.a11yApprove(symbol), isApproveButtonDisabled)}
+      >
+        {isApprovalPending && <LoadingSpinner className="h-5 w-5 text-white mr-2" />}
+        {isApprovalCompleted && (
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        )}
+        {approveButtonText}
+      </button>
+      {!isApprovalCompleted && (
+        <span className="text-gray-400 text-xs text-center">
+          {t.actions.exactApprovalNote}
+        </span>
+      )}
+      {!isApprovalCompleted && <FeeNote estimate={fees.approve} />}
+
+      {/* Deposit button */}
+      <button
+        onClick={onDeposit}
+        disabled={isDepositButtonDisabled}
+        className={getButtonClassName(isDepositButtonDisabled, isDepositPending)}
+        aria-label={t.common.a11yState(t.actions.a11yDeposit, isDepositButtonDisabled)}
+      >
+        {isDepositPending && <LoadingSpinner className="h-5 w-5 text-white mr-2" />}
+        {/* {!isDepositPending && !isDepositButtonDisabled && (
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+        )} */}
+        {depositButtonText}
+      </button>
+      <FeeNote estimate={fees.deposit} />
+    </div>
+  );
+};
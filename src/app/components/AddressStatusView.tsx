@@ -0,0 +1,170 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { getStatusPath } from '../addressLookup';
+import { Deployment, DEPLOYMENTS, getDeploymentChain, getPoolPath } from '../deployments';
+import { describeDepositError } from '../errors';
+import { useAddressDepositStatus } from '../hooks/useAddressDepositStatus';
+import { useAddressLookup } from '../hooks/useAddressLookup';
+import { useCourseTimeline } from '../hooks/useCourseTimeline';
+import { useDepositToken } from '../hooks/useDepositToken';
+import { Locale } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount, formatTokenValue, TokenMetadata } from '../token';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface AddressStatusViewProps {
+  // Address or name from the `?address=` query, empty when none was given
+  query: string;
+}
+
+const StatusRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 text-sm">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-white text-right break-all">{value}</span>
+  </div>
+);
+
+const formatAmount = (amount: bigint, token: TokenMetadata | null, locale: Locale) =>
+  token ? formatTokenAmount(amount, token, locale) : formatTokenValue(amount, 0, locale);
+
+// Deposit status of one address in one pool
+const PoolStatusCard = ({ deployment, address }: { deployment: Deployment; address: `0x${string}` }) => {
+  const { status, isLoading, error, refresh } = useAddressDepositStatus(deployment, address);
+  const { token } = useDepositToken(deployment);
+  const { phase } = useCourseTimeline(deployment);
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="p-4 bg-gray-800/40 rounded-lg border border-gray-700" style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px'
+    }}>
+      <div className="flex justify-between items-center gap-4">
+        <Link href={getPoolPath(deployment)} className="text-white font-semibold hover:text-blue-300">
+          {deployment.cohort}
+        </Link>
+        <span className="text-gray-400 text-xs">{getDeploymentChain(deployment).name}</span>
+      </div>
+
+      <StatusRow label={t.status.coursePhase} value={phase ? t.timeline.phases[phase] : '…'} />
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-blue-400 text-sm">
+          <LoadingSpinner className="h-4 w-4" />
+          {t.pool.checkingStatus}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex justify-between items-center gap-4">
+          <span className="text-red-400 text-sm">{describeDepositError(error, token, t)}</span>
+          <button
+            onClick={refresh}
+            className="px-4 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
+          >
+            {t.common.retry}
+          </button>
+        </div>
+      )}
+
+      {status && (
+        <>
+          <StatusRow
+            label={t.status.deposited}
+            value={status.hasDeposited
+              ? <span className="text-green-400">✓ {t.status.yes}</span>
+              : <span className="text-yellow-400">{t.status.notYet}</span>}
+          />
+          {status.hasDeposited && (
+            <StatusRow label={t.status.remainingDeposit} value={formatAmount(status.remainingDeposit, token, locale)} />
+          )}
+          <StatusRow label={t.status.allowanceToPool} value={formatAmount(status.allowance, token, locale)} />
+          <StatusRow label={t.status.walletBalance} value={formatAmount(status.balance, token, locale)} />
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Public deposit status of any address or ENS name / Basename, without connecting a wallet
+ */
+export const AddressStatusView = ({ query }: AddressStatusViewProps) => {
+  const router = useRouter();
+  const [input, setInput] = useState(query);
+  const { resolved, isLoading, error } = useAddressLookup(query);
+  const { t } = useI18n();
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = input.trim();
+    if (trimmed) {
+      router.push(getStatusPath(trimmed));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">{t.status.title}</h1>
+            <p className="text-gray-400 text-sm">{t.status.subtitle}</p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              placeholder={t.status.placeholder}
+              spellCheck={false}
+              autoCapitalize="none"
+              autoCorrect="off"
+              className="flex-1 min-w-0 py-2 px-3 bg-gray-800 text-white rounded-lg border border-gray-700 focus:border-blue-500 outline-none text-sm font-mono"
+              aria-label={t.status.a11yInput}
+            />
+            <button
+              type="submit"
+              className="py-2 px-4 bg-slate-700 text-white rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors text-sm"
+            >
+              {t.status.lookUp}
+            </button>
+          </form>
+
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+              <LoadingSpinner className="h-4 w-4" />
+              {t.status.resolving}
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center p-3 bg-red-900/20 rounded-lg border border-red-800">
+              <span className="text-red-400 text-sm">{describeDepositError(error, null, t)}</span>
+            </div>
+          )}
+
+          {resolved && (
+            <>
+              <div className="text-center text-sm">
+                {resolved.name && <div className="text-white font-semibold">{resolved.name}</div>}
+                <div className="text-gray-400 font-mono break-all">{resolved.address}</div>
+              </div>
+              {DEPLOYMENTS.map((deployment) => (
+                <PoolStatusCard key={deployment.id} deployment={deployment} address={resolved.address} />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+'use client';
+
+import { FeeEstimate } from '../contracts';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount, TokenMetadata } from '../token';
+import { FeeNote } from './FeeNote';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface AllowanceResetPanelProps {
+  // Existing allowance of the pool, if known
+  currentAllowance: bigint | null;
+  token: TokenMetadata | null;
+  status: 'idle' | 'pending' | 'failed';
+  // Network fee of the reset; blocks the button if the wallet cannot pay it
+  resetFee: FeeEstimate | undefined;
+  onReset: () => void;
+}
+
+// Extra step for USDT-style tokens that reject changing a non-zero allowance to another non-zero value
+export const AllowanceResetPanel = ({ currentAllowance, token, status, resetFee, onReset }: AllowanceResetPanelProps) => {
+  const { locale, t } = useI18n();
+  const isPending = status === 'pending';
+  const isDisabled = isPending || resetFee?.isAffordable === false;
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '12px',
+      alignItems: 'center'
+    }}>
+      <div className="p-3 bg-yellow-900/20 rounded-lg border border-yellow-800 text-center">
+        <p className="text-yellow-400 text-sm font-medium">{t.allowanceReset.title}</p>
+        <p className="text-gray-300 text-xs mt-1">
+          {t.allowanceReset.existingAllowance(
+            currentAllowance !== null && token ? formatTokenAmount(currentAllowance, token, locale) : null
+          )}
+          {' '}{t.allowanceReset.explanation(token?.symbol ?? null)}
+        </p>
+      </div>
+
+      {/* Step Progress Indicator */}
+      <div className="flex items-center justify-center text-xs text-gray-400" style={{ gap: '8px' }}>
+        <span className={isPending ? 'text-blue-400' : 'text-yellow-400'}>{t.allowanceReset.stepReset}</span>
+        <span>→</span>
+        <span>{t.allowanceReset.stepApprove}</span>
+        <span>→</span>
+        <span>{t.allowanceReset.stepDeposit}</span>
+      </div>
+
+      <button
+        onClick={onReset}
+        disabled={isDisabled}
+        className={`w-full max-w-[300px] py-4 px-6 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center shadow-lg cursor-pointer border ${isPending
+          ? 'bg-blue-600 text-white border-blue-600 cursor-not-allowed'
+          : isDisabled
+            ? 'bg-gray-700/50 text-gray-500 border-gray-700 cursor-not-allowed'
+            : 'bg-slate-700 text-white border-slate-600 hover:bg-slate-600 hover:border-slate-500'
+          }`}
+        aria-label={t.common.a11yState(t.allowanceReset.a11yReset(token?.symbol ?? null), isDisabled)}
+      >
+        {isPending && <LoadingSpinner className="h-5 w-5 text-white mr-2" />}
+        {isPending ? t.allowanceReset.resetting : t.allowanceReset.reset}
+      </button>
+      <FeeNote estimate={resetFee} />
+    </div>
+  );
+};
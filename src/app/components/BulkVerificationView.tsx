@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useAccount } from 'wagmi';
+import { DEPLOYMENTS, getDeploymentChain } from '../deployments';
+import { describeDepositError } from '../errors';
+import { useParticipantVerification } from '../hooks/useParticipantVerification';
+import { useWalletIdentity } from '../hooks/useWalletIdentity';
+import { useWalletLinks } from '../hooks/useWalletLinks';
+import { useI18n } from '../i18n/I18nProvider';
+import { describeIdentityError } from '../identity';
+import { parseParticipantsCsv, ParticipantList, verifiedParticipantsToCsv } from '../participants';
+import { HandleClaimsPanel } from './HandleClaimsPanel';
+import { LoadingSpinner } from './LoadingSpinner';
+import { WalletIdentityPanel } from './WalletIdentityPanel';
+
+const EMPTY_LIST: ParticipantList = { participants: [], invalidRows: [] };
+
+type ResultFilter = 'all' | 'paid' | 'unpaid';
+
+/**
+ * Organizer tool: check a CSV of participant wallets against a pool and export paid/unpaid
+ */
+export const BulkVerificationView = () => {
+  const { t } = useI18n();
+  const [deploymentId, setDeploymentId] = useState(DEPLOYMENTS[0].id);
+  const [csvText, setCsvText] = useState('');
+  const [list, setList] = useState<ParticipantList>(EMPTY_LIST);
+  const [filter, setFilter] = useState<ResultFilter>('all');
+
+  const deployment = DEPLOYMENTS.find((item) => item.id === deploymentId) ?? DEPLOYMENTS[0];
+  const { results, isLoading, error, refresh } = useParticipantVerification(deployment, list.participants);
+  const { isConnected } = useAccount();
+  const { session } = useWalletIdentity();
+  // Course handles linked through Sign-In with Ethereum, by lowercased address
+  const { links, error: linksError, confirmLink, rejectLink } = useWalletLinks(session?.isOrganizer === true);
+  // Unconfirmed claims are only listed for review until an organizer confirms them
+  const confirmedLinks = links?.filter((link) => link.isConfirmed);
+  const linkedHandles = confirmedLinks
+    ? new Map(confirmedLinks.map((link) => [link.address.toLowerCase(), link.handle]))
+    : undefined;
+
+  const paidCount = results?.filter((result) => result.hasDeposited).length ?? 0;
+  const visibleResults = results?.filter((result) =>
+    filter === 'all' || (filter === 'paid') === result.hasDeposited
+  ) ?? [];
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setCsvText(text);
+    setList(parseParticipantsCsv(text));
+  };
+
+  const handleVerify = () => {
+    setList(parseParticipantsCsv(csvText));
+  };
+
+  const handleImportLinked = () => {
+    if (!confirmedLinks) return;
+    const text = ['name,address', ...confirmedLinks.map((link) => `${link.handle},${link.address}`)].join('\n');
+    setCsvText(text);
+    setList(parseParticipantsCsv(text));
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    const blob = new Blob([verifiedParticipantsToCsv(results, linkedHandles)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `deposits-${deployment.id}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClassName = "py-2 px-4 bg-slate-700 text-white rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors text-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl">
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">{t.verification.title}</h1>
+            <p className="text-gray-400 text-sm">{t.verification.subtitle}</p>
+          </div>
+
+          <div className="flex justify-center">
+            <ConnectButton />
+          </div>
+
+          {isConnected && <WalletIdentityPanel mode="organizer" />}
+
+          {links && <HandleClaimsPanel links={links} onConfirm={confirmLink} onReject={rejectLink} />}
+          {linksError && <p className="text-red-400 text-xs text-center">{describeIdentityError(linksError, t)}</p>}
+
+          {DEPLOYMENTS.length > 1 && (
+            <select
+              value={deploymentId}
+              onChange={(event) => setDeploymentId(event.target.value)}
+              className="py-2 px-3 bg-gray-800 text-white rounded-lg border border-gray-700 text-sm"
+              aria-label={t.verification.a11yPool}
+            >
+              {DEPLOYMENTS.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.cohort} ({getDeploymentChain(item).name})
+                </option>
+              ))}
+            </select>
+          )}
+
+          <textarea
+            value={csvText}
+            onChange={(event) => setCsvText(event.target.value)}
+            placeholder={'name,address\nAlice,0x…\nBob,0x…'}
+            rows={8}
+            spellCheck={false}
+            className="py-2 px-3 bg-gray-800 text-white rounded-lg border border-gray-700 focus:border-blue-500 outline-none text-sm font-mono"
+            aria-label={t.verification.a11yCsv}
+          />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={`${buttonClassName} cursor-pointer`}>
+              {t.verification.upload}
+              <input type="file" accept=".csv,text/csv,text/plain" onChange={handleFileChange} className="hidden" />
+            </label>
+            <button onClick={handleVerify} disabled={csvText.trim().length === 0} className={buttonClassName}>
+              {t.verification.verify}
+            </button>
+            {confirmedLinks && confirmedLinks.length > 0 && (
+              <button onClick={handleImportLinked} className={buttonClassName}>
+                {t.identity.importLinked(confirmedLinks.length)}
+              </button>
+            )}
+            {results && (
+              <>
+                <button onClick={refresh} className={buttonClassName}>
+                  {t.common.refresh}
+                </button>
+                <button onClick={handleExport} className={buttonClassName}>
+                  {t.verification.exportCsv}
+                </button>
+              </>
+            )}
+          </div>
+
+          {list.invalidRows.length > 0 && (
+            <div className="p-3 bg-yellow-900/20 rounded-lg border border-yellow-800 text-sm">
+              <p className="text-yellow-400 font-medium">{t.verification.skippedRows(list.invalidRows.length)}</p>
+              <ul className="text-gray-300 text-xs mt-1 font-mono">
+                {list.invalidRows.map((row) => (
+                  <li key={row.line} className="break-all">
+                    {t.verification.rowLine(row.line)}: {t.verification.invalidReasons[row.reason]} — {row.raw}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+              <LoadingSpinner className="h-4 w-4" />
+              {t.verification.checking(list.participants.length)}
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center p-3 bg-red-900/20 rounded-lg border border-red-800">
+              <span className="text-red-400 text-sm">{describeDepositError(error, null, t)}</span>
+            </div>
+          )}
+
+          {results && (
+            <>
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-300">
+                  <span className="text-green-400">{t.verification.paidCount(paidCount)}</span>
+                  {' · '}
+                  <span className="text-yellow-400">{t.verification.unpaidCount(results.length - paidCount)}</span>
+                </span>
+                <div className="flex gap-1">
+                  {(['all', 'paid', 'unpaid'] as const).map((item) => (
+                    <button
+                      key={item}
+                      onClick={() => setFilter(item)}
+                      className={`px-3 py-1 rounded text-xs ${filter === item ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                    >
+                      {t.verification.filters[item]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="py-1 font-normal">{t.verification.name}</th>
+                    {linkedHandles && <th className="py-1 font-normal">{t.identity.handle}</th>}
+                    <th className="py-1 font-normal">{t.verification.address}</th>
+                    <th className="py-1 font-normal text-right">{t.verification.status}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleResults.map((result) => (
+                    <tr key={result.address} className="border-t border-gray-800">
+                      <td className="py-1 pr-2">{result.name || '—'}</td>
+                      {linkedHandles && (
+                        <td className="py-1 pr-2">
+                          {linkedHandles.has(result.address.toLowerCase()) ? `@${linkedHandles.get(result.address.toLowerCase())}` : '—'}
+                        </td>
+                      )}
+                      <td className="py-1 pr-2 font-mono text-xs break-all">{result.address}</td>
+                      <td className={`py-1 text-right ${result.hasDeposited ? 'text-green-400' : 'text-yellow-400'}`}>
+                        {result.hasDeposited ? `✓ ${t.verification.paid}` : t.verification.unpaid}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+'use client';
+
+import { describeDepositError } from '../errors';
+import { ConfigDiagnostics, useConfigDiagnostics } from '../hooks/useConfigDiagnostics';
+import { useI18n } from '../i18n/I18nProvider';
+import { LoadingSpinner } from './LoadingSpinner';
+
+/**
+ * Readable list of configuration problems, or confirmation that there are none
+ */
+export const ConfigDiagnosticsView = ({ diagnostics }: { diagnostics: ConfigDiagnostics }) => {
+  const { t } = useI18n();
+  const { issues, isChecking, error, refresh } = diagnostics;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl">
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">{t.diagnostics.title}</h1>
+            <p className="text-gray-400 text-sm">
+              {issues.length > 0 ? t.diagnostics.issuesFound(issues.length) : t.diagnostics.subtitle}
+            </p>
+          </div>
+
+          {issues.map((issue, index) => (
+            <div key={`${issue.variable}-${index}`} className="p-3 bg-red-900/20 rounded-lg border border-red-800 text-sm">
+              <div className="font-mono text-red-300 break-all">{issue.variable}</div>
+              {issue.value !== null && (
+                <div className="text-gray-400 text-xs font-mono break-all mt-1">
+                  {t.diagnostics.value}: {issue.value}
+                </div>
+              )}
+              <div className="text-gray-200 mt-1">{t.diagnostics.issues[issue.code](issue.detail ?? '')}</div>
+            </div>
+          ))}
+
+          {issues.length > 0 && (
+            <p className="text-gray-400 text-xs text-center">{t.diagnostics.rebuildHint}</p>
+          )}
+
+          {isChecking && (
+            <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+              <LoadingSpinner className="h-4 w-4" />
+              {t.diagnostics.checking}
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center p-3 bg-yellow-900/20 rounded-lg border border-yellow-800">
+              <p className="text-yellow-400 text-sm">{t.diagnostics.checkFailed}</p>
+              <p className="text-gray-300 text-xs mt-1">{describeDepositError(error, null, t)}</p>
+              <button onClick={refresh} className="mt-2 text-blue-400 hover:text-blue-300 text-sm underline">
+                {t.common.retry}
+              </button>
+            </div>
+          )}
+
+          {!isChecking && !error && issues.length === 0 && (
+            <div className="text-center p-3 bg-green-900/20 rounded-lg border border-green-800">
+              <span className="text-green-400 text-sm">✓ {t.diagnostics.allGood}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders the app only when the configuration is valid, the diagnostics screen otherwise.
+ * While the on-chain checks run, or if the chain cannot be reached, the app is shown.
+ */
+export const ConfigGate = ({ children }: { children: React.ReactNode }) => {
+  const diagnostics = useConfigDiagnostics();
+
+  if (diagnostics.issues.length > 0) {
+    return <ConfigDiagnosticsView diagnostics={diagnostics} />;
+  }
+  return <>{children}</>;
+};
@@ -0,0 +1,96 @@
+'use client';
+
+import type { CoursePhase } from '../hooks/useCourseTimeline';
+import { formatDateTime, Messages } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CourseTimelineProps {
+  courseStartTime: number | null;
+  courseFinalizedTime: number | null;
+  phase: CoursePhase | null;
+  secondsUntilFinalized: number | null;
+}
+
+// Format a duration as e.g. "3d 04h 05m 06s"
+const formatCountdown = (totalSeconds: number, t: Messages) => {
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return t.timeline.countdown(days, pad(hours), pad(minutes), pad(seconds));
+};
+
+export const CourseTimeline = ({ courseStartTime, courseFinalizedTime, phase, secondsUntilFinalized }: CourseTimelineProps) => {
+  const { locale, t } = useI18n();
+
+  // Wait until the finalization time has been read and the clock has started
+  if (courseFinalizedTime === null || phase === null) {
+    return null;
+  }
+
+  const phases: CoursePhase[] = courseStartTime !== null
+    ? ['before-course', 'in-progress', 'finalized']
+    : ['in-progress', 'finalized'];
+  const currentIndex = phases.indexOf(phase);
+
+  return (
+    <div className="p-4 rounded-lg border border-gray-700 bg-gray-900/40" style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '12px'
+    }}>
+      {/* Phase indicator */}
+      <div className="flex items-center justify-center" style={{
+        gap: `4px`,
+      }}>
+        {phases.map((item, index) => (
+          <div key={item} className="flex items-center" style={{
+            gap: `4px`,
+          }}>
+            {index > 0 && (
+              <div className={`w-8 h-0.5 ${index <= currentIndex ? 'bg-green-600' : 'bg-gray-700'}`}></div>
+            )}
+            <span className={`text-xs font-medium px-2 py-1 rounded-full ${index === currentIndex ? 'bg-blue-600 text-white' :
+              index < currentIndex ? 'text-green-400' :
+                'text-gray-500'
+              }`}>
+              {t.timeline.phases[item]}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Timeline details */}
+      <dl className="text-sm" style={{
+        display: 'grid',
+        gridTemplateColumns: 'auto 1fr',
+        gap: '4px 12px'
+      }}>
+        <dt className="text-gray-400">{t.timeline.depositWindow}</dt>
+        <dd className="text-right text-gray-200">
+          {phase === 'finalized'
+            ? t.timeline.closed
+            : t.timeline.openUntil(formatDateTime(courseFinalizedTime, locale))}
+        </dd>
+
+        {courseStartTime !== null && (
+          <>
+            <dt className="text-gray-400">{t.timeline.courseStarts}</dt>
+            <dd className="text-right text-gray-200">{formatDateTime(courseStartTime, locale)}</dd>
+          </>
+        )}
+
+        <dt className="text-gray-400">{t.timeline.finalization}</dt>
+        <dd className="text-right text-gray-200">{formatDateTime(courseFinalizedTime, locale)}</dd>
+
+        <dt className="text-gray-400">{phase === 'finalized' ? t.timeline.depositsUnlocked : t.timeline.unlocksIn}</dt>
+        <dd className="text-right font-mono text-gray-200">
+          {phase === 'finalized' || secondsUntilFinalized === null
+            ? '✓'
+            : formatCountdown(secondsUntilFinalized, t)}
+        </dd>
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEMO_CHAIN, DEMO_TOKEN } from '../demo/demoChain';
+import { DemoOutcome, DemoSnapshot, getDemoLedger } from '../demo/demoLedger';
+import { formatInteger } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { queryClient } from '../queryClient';
+import { formatNativeAmount, formatTokenAmount } from '../token';
+
+const OUTCOMES: DemoOutcome[] = ['success', 'reject', 'revert'];
+
+// Scenario controls of demo mode, rendered on every page
+export const DemoPanel = () => {
+  const { locale, t } = useI18n();
+  const demoLedger = getDemoLedger();
+  // Read after mount: the ledger lives in localStorage, so the server cannot render it
+  const [snapshot, setSnapshot] = useState<DemoSnapshot | null>(null);
+
+  useEffect(() => {
+    setSnapshot(demoLedger.getSnapshot());
+    return demoLedger.subscribe(() => setSnapshot(demoLedger.getSnapshot()));
+  }, [demoLedger]);
+
+  // Pool state changed outside of a transaction, so cached reads are stale
+  const runAndRefresh = (action: () => void) => {
+    action();
+    void queryClient.invalidateQueries();
+  };
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const buttonClass = 'px-2 py-1 rounded text-white text-xs cursor-pointer';
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-72 p-3 bg-gray-800/90 rounded-lg border border-yellow-600 text-xs text-gray-300 print:hidden">
+      <div className="flex justify-between items-baseline">
+        <span className="font-semibold text-yellow-400">{t.demo.title}</span>
+        <span className="text-gray-500">{t.demo.block(formatInteger(snapshot.blockNumber, locale))}</span>
+      </div>
+      <p className="text-gray-400 mt-1">{t.demo.description}</p>
+
+      <div className="mt-2">
+        <div className="text-gray-400">{t.demo.wallet}</div>
+        <div>{t.demo.gasBalance}: {formatNativeAmount(snapshot.nativeBalance, DEMO_CHAIN.nativeCurrency, locale)}</div>
+        <div>{t.demo.tokenBalance}: {formatTokenAmount(snapshot.tokenBalance, DEMO_TOKEN, locale)}</div>
+        <div>{t.demo.allowance}: {formatTokenAmount(snapshot.allowance, DEMO_TOKEN, locale)}</div>
+      </div>
+
+      <div className="mt-2">
+        <div className="text-gray-400 mb-1">{t.demo.nextTransaction}</div>
+        <div className="flex gap-1" role="group" aria-label={t.demo.nextTransaction}>
+          {OUTCOMES.map((outcome) => (
+            <button
+              key={outcome}
+              onClick={() => demoLedger.setNextOutcome(outcome)}
+              aria-pressed={snapshot.nextOutcome === outcome}
+              className={`px-2 py-1 rounded cursor-pointer ${snapshot.nextOutcome === outcome ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'}`}
+            >
+              {t.demo.outcomes[outcome]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-1">
+        <button onClick={() => runAndRefresh(() => demoLedger.finalizeCourse())} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>
+          {t.demo.finalizeCourse}
+        </button>
+        <button onClick={() => runAndRefresh(() => demoLedger.setPartialAllowance())} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>
+          {t.demo.partialAllowance}
+        </button>
+        <button onClick={() => runAndRefresh(() => demoLedger.toggleNativeBalance())} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>
+          {snapshot.nativeBalance > BigInt(0) ? t.demo.emptyGas : t.demo.refillGas}
+        </button>
+        <button onClick={() => runAndRefresh(() => demoLedger.reset())} className={`${buttonClass} bg-red-700 hover:bg-red-600`}>
+          {t.demo.reset}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+'use client';
+
+import Link from 'next/link';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { ActionButtons } from './ActionButtons';
+import { AllowanceResetPanel } from './AllowanceResetPanel';
+import { ErrorPopup } from './ErrorPopup';
+import { RefundPanel } from './RefundPanel';
+import { TransactionHistory } from './TransactionHistory';
+import { WalletIdentityPanel } from './WalletIdentityPanel';
+import { CourseTimeline } from './CourseTimeline';
+import { useCourseTimeline } from '../hooks/useCourseTimeline';
+import { useDepositFlow } from '../hooks/useDepositFlow';
+import { useDepositToken } from '../hooks/useDepositToken';
+import { useEnrollment } from '../hooks/useEnrollment';
+import { useFeeEstimates } from '../hooks/useFeeEstimates';
+import { TransactionKind } from '../contracts';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount } from '../token';
+import { ACTIVE_DEPLOYMENT, DEPLOYMENTS, getDeploymentChain, getPoolStatsPath } from '../deployments';
+import { getReceiptPath } from '../receipts';
+import { describeDepositError } from '../errors';
+import {
+  selectAllowanceReset,
+  selectApprovalStatus,
+  selectDepositStatus,
+  selectDepositTransactionHash,
+  selectHasDeposited,
+  selectRemainingDeposit,
+  selectWithdrawStatus,
+} from '../depositFlow';
+
+interface DepositPoolViewProps {
+  // Id of the deployment in the registry
+  deploymentId: string;
+}
+
+/**
+ * Deposit, approval and refund card for a single pool deployment
+ */
+export const DepositPoolView = ({ deploymentId }: DepositPoolViewProps) => {
+  const deployment = DEPLOYMENTS.find((item) => item.id === deploymentId) ?? ACTIVE_DEPLOYMENT;
+  const { address } = useAccount();
+  const { locale, t } = useI18n();
+  const { switchChain } = useSwitchChain();
+  const {
+    state: { step, error },
+    canRetry,
+    isBatchAvailable,
+    resetAllowance,
+    approve,
+    deposit,
+    approveAndDeposit,
+    withdraw,
+    retry,
+    retryStatusCheck,
+    dismissError,
+  } = useDepositFlow(deployment);
+
+  // Derived UI state from the deposit flow state machine
+  const isConnected = step.name !== 'disconnected';
+  const showNetworkPrompt = step.name === 'wrong-network';
+  const hasDeposited = selectHasDeposited(step);
+  const approvalStatus = selectApprovalStatus(step);
+  const depositStatus = selectDepositStatus(step);
+  const withdrawStatus = selectWithdrawStatus(step);
+  const remainingDeposit = selectRemainingDeposit(step);
+  const depositTransactionHash = selectDepositTransactionHash(step);
+  const allowanceReset = selectAllowanceReset(step);
+  const depositCheckError = step.name === 'check-failed' ? step.error : null;
+
+  // Deposit token and flat deposit amount, read from the chain
+  const { token, depositAmount } = useDepositToken(deployment);
+
+  // Only enrolled wallets may deposit when the pool has an allowlist
+  const enrollmentCheck = useEnrollment(deployment, address);
+  const enrollment = enrollmentCheck.enrollment;
+  const canDeposit = enrollment?.status === 'open' || enrollment?.status === 'enrolled';
+
+  // Network fees of the transactions the current step can send next
+  const feeKinds: TransactionKind[] = hasDeposited === true
+    ? ['withdraw']
+    : hasDeposited === false && canDeposit
+      ? allowanceReset ? ['reset-allowance'] : ['approve', 'deposit']
+      : [];
+  const fees = useFeeEstimates(deployment, address, feeKinds, depositAmount, step.name);
+
+  // Course timeline (finalization time, phase and countdown)
+  const courseTimeline = useCourseTimeline(deployment);
+
+  const handleSwitchToConfiguredChain = () => {
+    switchChain({ chainId: deployment.chainId });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        {/* Main Card */}
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          {/* Header */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white from-blue-400 to-purple-400 bg-clip-text text-transparent mb-2">
+              {t.pool.title}
+            </h1>
+            <p className="text-gray-400 text-sm">{deployment.cohort}</p>
+            <div className="flex justify-center gap-4">
+              {DEPLOYMENTS.length > 1 && (
+                <Link href="/pool" className="text-blue-400 text-xs hover:text-blue-300">
+                  {t.pool.allCohorts}
+                </Link>
+              )}
+              <Link href="/status" className="text-blue-400 text-xs hover:text-blue-300">
+                {t.pool.lookUpAddress}
+              </Link>
+              <Link href={getPoolStatsPath(deployment)} className="text-blue-400 text-xs hover:text-blue-300">
+                {t.pool.poolStats}
+              </Link>
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="space-y-6" style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '12px'
+          }}>
+            <div className="flex justify-center">
+              <ConnectButton />
+            </div>
+
+            {isConnected && <WalletIdentityPanel mode="participant" />}
+
+            {/* Course Timeline */}
+            <CourseTimeline
+              courseStartTime={courseTimeline.courseStartTime}
+              courseFinalizedTime={courseTimeline.courseFinalizedTime}
+              phase={courseTimeline.phase}
+              secondsUntilFinalized={courseTimeline.secondsUntilFinalized}
+            />
+
+            {isConnected && showNetworkPrompt && (
+              <button
+                onClick={handleSwitchToConfiguredChain}
+                className="w-full py-4 px-6 bg-gradient-to-r from-yellow-600 to-yellow-500 text-white rounded-xl font-semibold border border-yellow-500 hover:from-yellow-500 hover:to-yellow-400 transition-all duration-200 shadow-lg hover:shadow-yellow-500/25"
+              >
+                {t.pool.switchNetwork(getDeploymentChain(deployment).name)}
+              </button>
+            )}
+
+            {isConnected && !showNetworkPrompt && (
+              <div className="space-y-6" style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '12px'
+              }}>
+                {/* Participant label from the allowlist */}
+                {enrollment?.status === 'enrolled' && enrollment.label && (
+                  <p className="text-center text-gray-300 text-sm">{t.pool.enrolledAs(enrollment.label)}</p>
+                )}
+
+                {/* Deposit Success State */}
+                {hasDeposited === true && (
+                  <div className="text-center p-3 bg-green-900/20 rounded-lg border border-green-800">
+                    <span className="text-green-400 text-sm font-medium">
+                      ✓ {depositStatus === 'success' ? t.pool.depositComplete : t.pool.alreadyDeposited}
+                    </span>
+                    {depositTransactionHash && (
+                      <div className="mt-1">
+                        <Link
+                          href={getReceiptPath(deployment.chainId, depositTransactionHash)}
+                          className="text-blue-400 text-xs hover:text-blue-300"
+                        >
+                          {t.pool.viewReceipt}
+                        </Link>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Refund Flow after course finalization */}
+                {hasDeposited === true && (
+                  <RefundPanel
+                    courseFinalizedTime={courseTimeline.courseFinalizedTime}
+                    isCourseFinalized={courseTimeline.phase === 'finalized'}
+                    remainingDeposit={remainingDeposit}
+                    token={token}
+                    withdrawStatus={withdrawStatus}
+                    withdrawFee={fees.withdraw}
+                    onWithdraw={withdraw}
+                  />
+                )}
+
+                {/* Deposit summary, shown before anything is signed */}
+                {hasDeposited === false && canDeposit && token && depositAmount !== null && (
+                  <div className="text-center p-3 bg-gray-800/40 rounded-lg border border-gray-700">
+                    <span className="text-white text-sm">
+                      {t.pool.depositSummary.before}
+                      <span className="font-semibold">{formatTokenAmount(depositAmount, token, locale)}</span>
+                      {t.pool.depositSummary.after}
+                    </span>
+                  </div>
+                )}
+
+                {/* Allowance reset before a new approval (USDT-style tokens) */}
+                {hasDeposited === false && canDeposit && allowanceReset && (
+                  <AllowanceResetPanel
+                    currentAllowance={allowanceReset.currentAllowance}
+                    token={token}
+                    status={allowanceReset.status}
+                    resetFee={fees['reset-allowance']}
+                    onReset={resetAllowance}
+                  />
+                )}
+
+                {/* Wallets missing from the allowlist get an explanation instead of the deposit buttons */}
+                {hasDeposited === false && enrollment?.status === 'not-enrolled' && (
+                  <div className="text-center p-3 bg-yellow-900/20 rounded-lg border border-yellow-800">
+                    <p className="text-yellow-400 text-sm font-medium">{t.pool.notEnrolledTitle}</p>
+                    <p className="text-gray-300 text-xs mt-1">{t.pool.notEnrolled(deployment.cohort)}</p>
+                  </div>
+                )}
+
+                {hasDeposited === false && enrollmentCheck.isLoading && (
+                  <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+                    <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                    {t.pool.checkingEnrollment}
+                  </div>
+                )}
+
+                {hasDeposited === false && enrollmentCheck.error && (
+                  <div className="text-center p-3 bg-red-900/20 rounded-lg border border-red-800">
+                    <p className="text-red-400 text-sm">⚠ {t.pool.enrollmentCheckFailed}</p>
+                    <p className="text-gray-300 text-xs mt-1">{describeDepositError(enrollmentCheck.error, null, t)}</p>
+                    <button
+                      onClick={enrollmentCheck.refresh}
+                      className="mt-2 px-4 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
+                    >
+                      {t.common.retry}
+                    </button>
+                  </div>
+                )}
+
+                {/* Action Buttons for Deposit Flow */}
+                {hasDeposited === false && canDeposit && !allowanceReset && (
+                  <ActionButtons
+                    approvalStatus={approvalStatus}
+                    depositStatus={depositStatus}
+                    isBatchAvailable={isBatchAvailable}
+                    token={token}
+                    depositAmount={depositAmount}
+                    fees={fees}
+                    onApprove={approve}
+                    onDeposit={deposit}
+                    onApproveAndDeposit={approveAndDeposit}
+                  />
+                )}
+
+                {/* Loading State */}
+                {hasDeposited === null && !depositCheckError && (
+                  <div className="text-center p-3 bg-blue-900/20 rounded-lg border border-blue-800">
+                    <div className="flex items-center justify-center gap-2">
+                      <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                      <span className="text-blue-400 text-sm">{t.pool.checkingStatus}</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Error State */}
+                {depositCheckError && (
+                  <div className="text-center p-3 bg-red-900/20 rounded-lg border border-red-800">
+                    <div className="flex items-center justify-center gap-2 mb-2">
+                      <span className="text-red-400 text-sm">⚠ {t.pool.connectionError}</span>
+                    </div>
+                    <button
+                      onClick={retryStatusCheck}
+                      className="px-4 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
+                    >
+                      {t.common.retry}
+                    </button>
+                  </div>
+                )}
+
+                {/* Past approvals, deposits and refunds of this wallet */}
+                {address && (
+                  <TransactionHistory deployment={deployment} address={address} refreshKey={step.name} />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Error popup */}
+      <ErrorPopup
+        error={error}
+        token={token}
+        onClose={dismissError}
+        onRetry={retry}
+        showRetry={canRetry}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { describeDepositError } from '../errors';
+import { getDeploymentChain, getTransactionExplorerUrl } from '../deployments';
+import { useDepositReceipt } from '../hooks/useDepositReceipt';
+import { formatDateTime, formatInteger } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { depositReceiptToJson } from '../receipts';
+import { formatTokenAmount } from '../token';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface DepositReceiptViewProps {
+  transactionHash: `0x${string}`;
+  chainId?: number;
+}
+
+const ReceiptRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 text-sm">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-white font-mono text-right break-all">{value}</span>
+  </div>
+);
+
+/**
+ * Printable receipt of a single deposit, with copy-link and JSON download
+ */
+export const DepositReceiptView = ({ transactionHash, chainId }: DepositReceiptViewProps) => {
+  const { receipt, confirmations, isLoading, error } = useDepositReceipt(transactionHash, chainId);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const { locale, t } = useI18n();
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (copyError) {
+      console.error('Error copying receipt link:', copyError);
+    }
+  };
+
+  const handleDownloadJson = () => {
+    if (!receipt) return;
+    const blob = new Blob([JSON.stringify(depositReceiptToJson(receipt, confirmations), null, 2)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `deposit-receipt-${transactionHash.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClassName = "flex-1 py-2 px-4 bg-slate-700 text-white rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors text-sm";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4 print:bg-none print:bg-white print:text-black">
+      <div className="w-full max-w-lg">
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">{t.receipt.title}</h1>
+            {receipt && <p className="text-gray-400 text-sm">{receipt.deployment.cohort}</p>}
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+              <LoadingSpinner className="h-4 w-4" />
+              {t.receipt.loading}
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center p-3 bg-red-900/20 rounded-lg border border-red-800">
+              <span className="text-red-400 text-sm">{describeDepositError(error, null, t)}</span>
+            </div>
+          )}
+
+          {!isLoading && !error && !receipt && (
+            <div className="text-center p-3 bg-yellow-900/20 rounded-lg border border-yellow-800">
+              <span className="text-yellow-400 text-sm">{t.receipt.notFound}</span>
+            </div>
+          )}
+
+          {receipt && (
+            <>
+              <div className="p-4 bg-gray-800/40 rounded-lg border border-gray-700" style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '8px'
+              }}>
+                <ReceiptRow label={t.receipt.depositor} value={receipt.depositor} />
+                <ReceiptRow label={t.receipt.amount} value={formatTokenAmount(receipt.amount, receipt.token, locale)} />
+                <ReceiptRow label={t.receipt.network} value={getDeploymentChain(receipt.deployment).name} />
+                <ReceiptRow label={t.receipt.pool} value={receipt.deployment.poolAddress} />
+                <ReceiptRow label={t.receipt.block} value={formatInteger(receipt.blockNumber, locale)} />
+                <ReceiptRow label={t.receipt.blockTime} value={formatDateTime(receipt.blockTimestamp, locale)} />
+                <ReceiptRow
+                  label={t.receipt.confirmations}
+                  value={confirmations === null ? '—' : formatInteger(confirmations, locale)}
+                />
+                <ReceiptRow
+                  label={t.receipt.transaction}
+                  value={(() => {
+                    const explorerUrl = getTransactionExplorerUrl(receipt.deployment.chainId, transactionHash);
+                    return explorerUrl ? (
+                      <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                        {transactionHash}
+                      </a>
+                    ) : transactionHash;
+                  })()}
+                />
+              </div>
+
+              <div className="flex gap-2 print:hidden">
+                <button onClick={handleCopyLink} className={buttonClassName}>
+                  {isLinkCopied ? t.receipt.linkCopied : t.receipt.copyLink}
+                </button>
+                <button onClick={handleDownloadJson} className={buttonClassName}>
+                  {t.receipt.downloadJson}
+                </button>
+                <button onClick={() => window.print()} className={buttonClassName}>
+                  {t.receipt.print}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
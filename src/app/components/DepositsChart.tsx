@@ -0,0 +1,67 @@
+'use client';
+
+import { formatDate, formatInteger } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { DailyDeposits } from '../poolStats';
+
+interface DepositsChartProps {
+  daily: DailyDeposits[];
+}
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const PADDING = 24;
+
+// Cumulative number of deposits per day, as a step line over daily bars
+export const DepositsChart = ({ daily }: DepositsChartProps) => {
+  const { locale, t } = useI18n();
+
+  if (daily.length === 0) {
+    return <p className="text-gray-500 text-sm text-center">{t.stats.noDeposits}</p>;
+  }
+
+  const firstDay = daily[0].day;
+  const lastDay = daily[daily.length - 1].day;
+  const daySpan = Math.max(lastDay - firstDay, 86400);
+  const total = daily.reduce((sum, item) => sum + item.count, 0);
+  const maxDaily = Math.max(...daily.map((item) => item.count));
+
+  const x = (day: number) => PADDING + ((day - firstDay) / daySpan) * (WIDTH - 2 * PADDING);
+  const y = (count: number, max: number) => HEIGHT - PADDING - (count / max) * (HEIGHT - 2 * PADDING);
+  const barWidth = Math.max(Math.min((WIDTH - 2 * PADDING) / (daySpan / 86400 + 1) - 2, 16), 2);
+
+  let cumulative = 0;
+  const points = daily.map((item) => {
+    cumulative += item.count;
+    return `${x(item.day)},${y(cumulative, total)}`;
+  });
+
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={t.stats.depositsOverTime}>
+        {daily.map((item) => (
+          <rect
+            key={item.day}
+            x={x(item.day) - barWidth / 2}
+            y={y(item.count, maxDaily)}
+            width={barWidth}
+            height={HEIGHT - PADDING - y(item.count, maxDaily)}
+            className="fill-slate-600"
+          >
+            <title>{t.stats.dailyDeposits(formatDate(item.day, locale), formatInteger(item.count, locale))}</title>
+          </rect>
+        ))}
+        <polyline points={points.join(' ')} fill="none" className="stroke-blue-400" strokeWidth={2} />
+        <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} className="stroke-gray-700" />
+        <text x={WIDTH - PADDING} y={PADDING - 8} textAnchor="end" className="fill-blue-400 text-[10px]">
+          {t.stats.total(formatInteger(total, locale))}
+        </text>
+      </svg>
+      <div className="flex justify-between text-gray-500 text-xs">
+        <span>{formatDate(firstDay, locale)}</span>
+        <span>{formatDate(lastDay, locale)}</span>
+      </div>
+    </div>
+  );
+};
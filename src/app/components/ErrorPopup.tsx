@@ -1,16 +1,22 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import { DepositError, describeDepositError } from '../errors';
+import { useI18n } from '../i18n/I18nProvider';
+import type { TokenMetadata } from '../token';
 
 interface ErrorPopupProps {
-  error: string | null;
+  error: DepositError | null;
+  // Deposit token, used to format amounts in the message
+  token?: TokenMetadata | null;
   onClose: () => void;
   onRetry?: () => void;
   showRetry?: boolean;
 }
 
-export const ErrorPopup = ({ error, onClose, onRetry, showRetry = false }: ErrorPopupProps) => {
+export const ErrorPopup = ({ error, token = null, onClose, onRetry, showRetry = false }: ErrorPopupProps) => {
   const modalRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
 
   // Handle click outside to dismiss popup
   useEffect(() => {
@@ -44,19 +50,6 @@ export const ErrorPopup = ({ error, onClose, onRetry, showRetry = false }: Error
   // Don't render if no error
   if (!error) return null;
 
-  // Format error message for user-friendly display
-  const formatErrorMessage = (errorMessage: string): string => {
-    // Remove technical details and make more user-friendly
-    const cleanMessage = errorMessage
-      .replace(/^Error:\s*/i, '')
-      .replace(/\s*\(.*?\)$/, '') // Remove parenthetical technical details
-      .trim();
-
-    // Ensure first letter is capitalized and ends with period
-    const formatted = cleanMessage.charAt(0).toUpperCase() + cleanMessage.slice(1);
-    return formatted.endsWith('.') ? formatted : `${formatted}.`;
-  };
-
   return (
     <div 
       className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-6"
@@ -83,7 +76,7 @@ export const ErrorPopup = ({ error, onClose, onRetry, showRetry = false }: Error
                 id="error-title" 
                 className="text-lg font-bold text-white"
               >
-                Transaction Failed
+                {t.errorPopup.title}
               </h3>
             </div>
           </div>
@@ -92,7 +85,7 @@ export const ErrorPopup = ({ error, onClose, onRetry, showRetry = false }: Error
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-200 transition-colors p-2 rounded-full hover:bg-gray-700/50 cursor-pointer"
-            aria-label="Close error dialog"
+            aria-label={t.errorPopup.a11yClose}
           >
             <svg 
               className="h-5 w-5" 
@@ -120,8 +113,9 @@ export const ErrorPopup = ({ error, onClose, onRetry, showRetry = false }: Error
             <p 
               id="error-description"
               className="text-gray-200 text-sm leading-relaxed"
+              data-error-code={error.code}
             >
-              {formatErrorMessage(error)}
+              {describeDepositError(error, token, t)}
             </p>
           </div>
 
@@ -135,14 +129,14 @@ export const ErrorPopup = ({ error, onClose, onRetry, showRetry = false }: Error
                 }}
                 className="flex-1 py-4 px-6 bg-gray-600 text-white rounded-xl font-semibold hover:bg-gray-500 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 focus:ring-offset-gray-800 cursor-pointer"
               >
-                Try Again
+                {t.errorPopup.tryAgain}
               </button>
             )}
             <button
               onClick={onClose}
               className="flex-1 py-4 px-6 bg-gray-700 text-white rounded-xl font-semibold hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-gray-800 cursor-pointer"
             >
-              Close
+              {t.common.close}
             </button>
           </div>
         </div>
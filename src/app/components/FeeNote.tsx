@@ -0,0 +1,56 @@
+'use client';
+
+import { FeeEstimate } from '../contracts';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatNativeAmount } from '../token';
+
+interface FeeNoteProps {
+  // Missing while the fee is being estimated
+  estimate: FeeEstimate | undefined;
+}
+
+// Expected network fee of a step, or why the wallet cannot pay for it
+export const FeeNote = ({ estimate }: FeeNoteProps) => {
+  const { locale, t } = useI18n();
+
+  if (!estimate) {
+    return null;
+  }
+
+  const feeText = formatNativeAmount(estimate.fee, estimate.nativeCurrency, locale);
+
+  if (!estimate.isAffordable) {
+    return (
+      <span className="text-red-400 text-xs text-center">
+        {t.fees.insufficient(
+          estimate.nativeCurrency.symbol,
+          feeText,
+          formatNativeAmount(estimate.nativeBalance, estimate.nativeCurrency, locale)
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <span className="text-gray-500 text-xs text-center">
+      {t.fees.networkFee(feeText)}
+    </span>
+  );
+};
+
+/**
+ * Combined estimate of transactions sent together (e.g. approve and deposit in one batch)
+ */
+export function combineFeeEstimates(estimates: (FeeEstimate | undefined)[]): FeeEstimate | undefined {
+  if (estimates.length === 0 || estimates.some((estimate) => !estimate)) {
+    return undefined;
+  }
+  const [first, ...rest] = estimates as FeeEstimate[];
+  const combined = rest.reduce((total, estimate) => ({
+    ...total,
+    gas: total.gas + estimate.gas,
+    fee: total.fee + estimate.fee,
+    isGasEstimated: total.isGasEstimated && estimate.isGasEstimated,
+  }), first);
+  return { ...combined, isAffordable: combined.nativeBalance >= combined.fee };
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useI18n } from '../i18n/I18nProvider';
+import { WalletLink } from '../identity';
+
+interface HandleClaimsPanelProps {
+  links: WalletLink[];
+  onConfirm: (address: `0x${string}`) => void;
+  onReject: (address: `0x${string}`) => void;
+}
+
+/**
+ * Organizer review of unconfirmed links: wallets that signed for a handle another wallet already holds
+ */
+export const HandleClaimsPanel = ({ links, onConfirm, onReject }: HandleClaimsPanelProps) => {
+  const { t } = useI18n();
+  const claims = links.filter((link) => !link.isConfirmed);
+  if (claims.length === 0) {
+    return null;
+  }
+
+  const buttonClassName = "text-xs underline";
+
+  return (
+    <div className="p-3 bg-yellow-900/20 rounded-lg border border-yellow-800 text-sm">
+      <p className="text-yellow-400 font-medium">{t.identity.claimsTitle(claims.length)}</p>
+      <p className="text-gray-400 text-xs mt-1">{t.identity.claimsHint}</p>
+      <ul className="mt-2 flex flex-col gap-2">
+        {claims.map((claim) => {
+          const holders = links.filter((link) =>
+            link.isConfirmed && link.handle.toLowerCase() === claim.handle.toLowerCase()
+          );
+          return (
+            <li key={claim.address} className="border-t border-yellow-900 pt-2">
+              <div className="flex justify-between gap-2">
+                <span className="text-white">@{claim.handle}</span>
+                <span className="flex gap-3">
+                  <button onClick={() => onConfirm(claim.address)} className={`${buttonClassName} text-green-400 hover:text-green-300`}>
+                    {t.identity.confirm}
+                  </button>
+                  <button onClick={() => onReject(claim.address)} className={`${buttonClassName} text-red-400 hover:text-red-300`}>
+                    {t.identity.reject}
+                  </button>
+                </span>
+              </div>
+              <p className="text-gray-300 text-xs font-mono break-all">{t.identity.claimedBy(claim.address)}</p>
+              {holders.map((holder) => (
+                <p key={holder.address} className="text-gray-500 text-xs font-mono break-all">
+                  {t.identity.heldBy(holder.address)}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+'use client';
+
+import { LOCALES, MESSAGES } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+export const LocaleSwitcher = () => {
+  const { locale, t, setLocale } = useI18n();
+
+  return (
+    <div
+      className="fixed top-4 right-4 z-40 flex gap-1 p-1 bg-gray-800/80 rounded-lg border border-gray-700 print:hidden"
+      role="group"
+      aria-label={t.localeSwitcher.label}
+    >
+      {LOCALES.map((item) => (
+        <button
+          key={item}
+          onClick={() => setLocale(item)}
+          aria-pressed={item === locale}
+          lang={item}
+          className={`px-2 py-1 rounded text-xs cursor-pointer ${item === locale ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+        >
+          {MESSAGES[item].languageName}
+        </button>
+      ))}
+    </div>
+  );
+};
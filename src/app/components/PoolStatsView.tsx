@@ -0,0 +1,99 @@
+'use client';
+
+import Link from 'next/link';
+import { ACTIVE_DEPLOYMENT, DEPLOYMENTS, getDeploymentChain, getPoolPath } from '../deployments';
+import { describeDepositError } from '../errors';
+import { usePoolStats } from '../hooks/usePoolStats';
+import { formatDateTime, formatInteger } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount } from '../token';
+import { DepositsChart } from './DepositsChart';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface PoolStatsViewProps {
+  // Id of the deployment in the registry
+  deploymentId: string;
+}
+
+const StatCard = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="p-3 bg-gray-800/40 rounded-lg border border-gray-700">
+    <div className="text-gray-400 text-xs">{label}</div>
+    <div className="text-white text-lg font-semibold break-all">{value}</div>
+  </div>
+);
+
+/**
+ * Pool-wide statistics: depositors, funds held, deposit amount, finalization time and deposits over time
+ */
+export const PoolStatsView = ({ deploymentId }: PoolStatsViewProps) => {
+  const deployment = DEPLOYMENTS.find((item) => item.id === deploymentId) ?? ACTIVE_DEPLOYMENT;
+  const { stats, isLoading, error, refresh } = usePoolStats(deployment);
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">{t.stats.title}</h1>
+            <p className="text-gray-400 text-sm">{deployment.cohort} · {getDeploymentChain(deployment).name}</p>
+            <Link href={getPoolPath(deployment)} className="text-blue-400 text-xs hover:text-blue-300">
+              {t.stats.backToPool}
+            </Link>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+              <LoadingSpinner className="h-4 w-4" />
+              {t.stats.aggregating}
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center p-3 bg-red-900/20 rounded-lg border border-red-800">
+              <div className="text-red-400 text-sm mb-2">{describeDepositError(error, null, t)}</div>
+              <button
+                onClick={refresh}
+                className="px-4 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
+              >
+                {t.common.retry}
+              </button>
+            </div>
+          )}
+
+          {stats && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <StatCard label={t.stats.depositors} value={formatInteger(stats.deposits.depositCount, locale)} />
+                <StatCard label={t.stats.heldByPool} value={formatTokenAmount(stats.poolBalance, stats.token, locale)} />
+                <StatCard label={t.stats.depositAmount} value={formatTokenAmount(stats.flatDepositAmount, stats.token, locale)} />
+                <StatCard
+                  label={t.stats.totalDeposited}
+                  value={formatTokenAmount(stats.deposits.totalDeposited, stats.token, locale)}
+                />
+                <StatCard label={t.stats.totalSlashed} value={formatTokenAmount(stats.totalSlashed, stats.token, locale)} />
+                <StatCard
+                  label={t.stats.courseFinalization}
+                  value={<span className="text-sm">{formatDateTime(Number(stats.courseFinalizedTime), locale)}</span>}
+                />
+              </div>
+
+              <div className="p-3 bg-gray-800/40 rounded-lg border border-gray-700">
+                <div className="text-gray-400 text-xs mb-2">{t.stats.depositsOverTime}</div>
+                <DepositsChart daily={stats.deposits.daily} />
+              </div>
+
+              <p className="text-gray-500 text-xs text-center">
+                {t.stats.aggregatedUpTo(formatInteger(stats.deposits.scannedToBlock, locale))}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+'use client';
+
+import { FeeEstimate } from '../contracts';
+import { formatDateTime } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount, TokenMetadata } from '../token';
+import { FeeNote } from './FeeNote';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface RefundPanelProps {
+  courseFinalizedTime: number | null;
+  isCourseFinalized: boolean;
+  remainingDeposit: bigint | null;
+  token: TokenMetadata | null;
+  withdrawStatus: 'idle' | 'pending' | 'success' | 'failed';
+  // Network fee of the refund; blocks the button if the wallet cannot pay it
+  withdrawFee: FeeEstimate | undefined;
+  onWithdraw: () => void;
+}
+
+export const RefundPanel = ({ courseFinalizedTime, isCourseFinalized, remainingDeposit, token, withdrawStatus, withdrawFee, onWithdraw }: RefundPanelProps) => {
+  const { locale, t } = useI18n();
+
+  // Wait until all reads have completed
+  if (courseFinalizedTime === null || remainingDeposit === null || token === null) {
+    return null;
+  }
+
+  const isWithdrawPending = withdrawStatus === 'pending';
+  const hasRemainingDeposit = remainingDeposit > BigInt(0);
+
+  // Refund already claimed (or the whole deposit was slashed)
+  if (!hasRemainingDeposit) {
+    return (
+      <div className="text-center p-3 bg-green-900/20 rounded-lg border border-green-800">
+        <span className="text-green-400 text-sm font-medium">
+          ✓ {withdrawStatus === 'success' ? t.refund.refundComplete : t.refund.noRefundRemaining}
+        </span>
+      </div>
+    );
+  }
+
+  const finalizedDate = formatDateTime(courseFinalizedTime, locale);
+  const isButtonDisabled = !isCourseFinalized || isWithdrawPending || withdrawFee?.isAffordable === false;
+  const buttonText = isWithdrawPending
+    ? t.common.processing
+    : t.refund.claim(formatTokenAmount(remainingDeposit, token, locale));
+
+  const baseClasses = "w-full max-w-[300px] py-4 px-6 rounded-xl font-semibold transition-all duration-200 flex items-center justify-center shadow-lg cursor-pointer";
+  const buttonClassName = isWithdrawPending
+    ? `${baseClasses} bg-blue-600 text-white border border-blue-600 cursor-not-allowed`
+    : isButtonDisabled
+      ? `${baseClasses} bg-gray-700/50 text-gray-500 border border-gray-700 cursor-not-allowed`
+      : `${baseClasses} bg-slate-700 text-white border border-slate-600 hover:bg-slate-600 hover:border-slate-500`;
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '12px',
+      alignItems: `center`
+    }}>
+      <span className="text-gray-400 text-sm text-center">
+        {isCourseFinalized ? t.refund.finalized : t.refund.claimableAfter(finalizedDate)}
+      </span>
+
+      <button
+        onClick={onWithdraw}
+        disabled={isButtonDisabled}
+        className={buttonClassName}
+        aria-label={t.common.a11yState(t.refund.a11yClaim, isButtonDisabled)}
+      >
+        {isWithdrawPending && <LoadingSpinner className="h-5 w-5 text-white mr-2" />}
+        {buttonText}
+      </button>
+      {isCourseFinalized && <FeeNote estimate={withdrawFee} />}
+    </div>
+  );
+};
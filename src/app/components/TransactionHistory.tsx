@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Deployment, getTransactionExplorerUrl } from '../deployments';
+import { describeDepositError } from '../errors';
+import { useDepositToken } from '../hooks/useDepositToken';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
+import { formatDateTime, formatInteger } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount } from '../token';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface TransactionHistoryProps {
+  deployment: Deployment;
+  address: `0x${string}`;
+  // Changes whenever the deposit flow settles, to pick up the new transaction
+  refreshKey: string;
+}
+
+export const TransactionHistory = ({ deployment, address, refreshKey }: TransactionHistoryProps) => {
+  const { entries, scannedFromBlock, hasOlder, isLoading, isLoadingOlder, error, loadOlder, refresh } =
+    useTransactionHistory(deployment, address);
+  const { token } = useDepositToken(deployment);
+  const { locale, t } = useI18n();
+
+  // Reload once the deposit flow moves on, e.g. after a deposit was mined
+  const lastRefreshKeyRef = useRef(refreshKey);
+  useEffect(() => {
+    if (lastRefreshKeyRef.current !== refreshKey) {
+      lastRefreshKeyRef.current = refreshKey;
+      refresh();
+    }
+  }, [refreshKey, refresh]);
+
+  return (
+    <div className="p-4 bg-gray-800/40 rounded-lg border border-gray-700" style={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px'
+    }}>
+      <div className="flex items-center justify-between">
+        <span className="text-white text-sm font-semibold">{t.history.title}</span>
+        <button onClick={refresh} className="text-blue-400 text-xs hover:text-blue-300">
+          {t.common.refresh}
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-blue-400 text-xs">
+          <LoadingSpinner className="h-4 w-4" />
+          {t.history.loading}
+        </div>
+      )}
+
+      {error && <span className="text-red-400 text-xs">{describeDepositError(error, token, t)}</span>}
+
+      {!isLoading && !error && entries.length === 0 && (
+        <span className="text-gray-400 text-xs">{t.history.empty}</span>
+      )}
+
+      {entries.map((entry) => {
+        const explorerUrl = getTransactionExplorerUrl(deployment.chainId, entry.transactionHash);
+        return (
+          <div
+            key={`${entry.kind}-${entry.transactionHash}`}
+            className="flex items-center justify-between gap-2 text-xs border-t border-gray-700 pt-2"
+          >
+            <div>
+              <div className="text-white font-medium">
+                {t.history.kinds[entry.kind]}
+                {entry.amount !== null && token && ` · ${formatTokenAmount(entry.amount, token, locale)}`}
+              </div>
+              <div className="text-gray-500">
+                {entry.timestamp !== null ? formatDateTime(entry.timestamp, locale) : '—'}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className={entry.status === 'pending' ? 'text-yellow-400' : 'text-green-400'}>
+                {entry.status === 'pending' ? t.history.pending : t.history.confirmed}
+              </div>
+              {explorerUrl && (
+                <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                  {`${entry.transactionHash.slice(0, 10)}…`}
+                </a>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {hasOlder && (
+        <button
+          onClick={loadOlder}
+          disabled={isLoadingOlder}
+          className="px-4 py-1 bg-slate-700 text-white rounded text-xs hover:bg-slate-600 transition-colors disabled:opacity-50"
+        >
+          {isLoadingOlder ? t.common.loading : t.history.loadOlder}
+        </button>
+      )}
+
+      {scannedFromBlock !== null && (
+        <span className="text-gray-500 text-xs">
+          {hasOlder ? t.history.scannedBackTo(formatInteger(scannedFromBlock, locale)) : t.history.showingAll}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { IS_DEMO_MODE } from '../demo/demoChain';
+import { useWalletIdentity } from '../hooks/useWalletIdentity';
+import { useI18n } from '../i18n/I18nProvider';
+import { describeIdentityError, IdentityRequestError, normalizeHandle } from '../identity';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface WalletIdentityPanelProps {
+  // Participants link a course handle; organizers only sign in
+  mode: 'participant' | 'organizer';
+}
+
+/**
+ * Sign-In with Ethereum for the connected wallet, shown below the connect button
+ */
+export const WalletIdentityPanel = ({ mode }: WalletIdentityPanelProps) => {
+  const { t } = useI18n();
+  const { session, isLoading, isSigningIn, error, signIn, signOut } = useWalletIdentity();
+  const [handleInput, setHandleInput] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+
+  // The demo wallet cannot sign messages, and servers without SESSION_SECRET have no sign-in
+  const isUnavailable = error instanceof IdentityRequestError && error.code === 'AUTH_NOT_CONFIGURED';
+  if (IS_DEMO_MODE || isUnavailable || isLoading) {
+    return null;
+  }
+
+  const handle = normalizeHandle(handleInput);
+  const buttonClassName = "py-2 px-4 bg-slate-700 text-white rounded-lg border border-slate-600 hover:bg-slate-600 transition-colors text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed";
+  const linkButtonClassName = "text-blue-400 hover:text-blue-300 text-xs underline";
+
+  const handleLink = async () => {
+    if (handle === null) return;
+    await signIn(handle);
+    setIsEditing(false);
+  };
+
+  const renderSignedIn = (label: string, isPending = false) => (
+    <div className={`text-center p-3 rounded-lg border text-sm ${isPending ? 'bg-yellow-900/20 border-yellow-800' : 'bg-green-900/20 border-green-800'}`}>
+      {isPending ? (
+        <span className="text-yellow-400">{label}</span>
+      ) : (
+        <span className="text-green-400 font-medium">✓ {label}</span>
+      )}
+      <div className="flex justify-center gap-3 mt-1">
+        {mode === 'participant' && (
+          <button onClick={() => setIsEditing(true)} className={linkButtonClassName}>
+            {t.identity.change}
+          </button>
+        )}
+        <button onClick={signOut} className={linkButtonClassName}>
+          {t.identity.signOut}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (isSigningIn) {
+      return (
+        <div className="flex items-center justify-center gap-2 text-blue-400 text-sm">
+          <LoadingSpinner className="h-4 w-4" />
+          {t.identity.signing}
+        </div>
+      );
+    }
+
+    if (mode === 'organizer') {
+      if (session?.isOrganizer) {
+        return renderSignedIn(t.identity.signedInAsOrganizer);
+      }
+      return (
+        <div className="flex flex-col items-center gap-2">
+          <p className="text-gray-400 text-xs text-center">{session ? t.identity.notOrganizer : t.identity.organizerHint}</p>
+          {session ? (
+            <button onClick={signOut} className={linkButtonClassName}>
+              {t.identity.signOut}
+            </button>
+          ) : (
+            <button onClick={() => signIn(null)} className={buttonClassName}>
+              {t.identity.signIn}
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    if (session?.handle && !isEditing) {
+      return session.isHandlePending
+        ? renderSignedIn(t.identity.pendingAs(session.handle), true)
+        : renderSignedIn(t.identity.linkedAs(session.handle));
+    }
+    return (
+      <div className="flex flex-col gap-2">
+        <p className="text-gray-400 text-xs text-center">{t.identity.hint}</p>
+        <div className="flex gap-2">
+          <input
+            value={handleInput}
+            onChange={(event) => setHandleInput(event.target.value)}
+            onKeyDown={(event) => event.key === 'Enter' && handleLink()}
+            placeholder={t.identity.handlePlaceholder}
+            spellCheck={false}
+            autoCapitalize="none"
+            className="flex-1 min-w-0 py-2 px-3 bg-gray-800 text-white rounded-lg border border-gray-700 focus:border-blue-500 outline-none text-sm"
+            aria-label={t.identity.a11yHandle}
+          />
+          <button onClick={handleLink} disabled={handle === null} className={buttonClassName}>
+            {t.identity.link}
+          </button>
+        </div>
+        {handleInput.trim() !== '' && handle === null && (
+          <p className="text-yellow-400 text-xs">{t.identity.errors.INVALID_HANDLE}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {renderContent()}
+      {error && !isSigningIn && (
+        <p className="text-red-400 text-xs text-center">{describeIdentityError(error, t)}</p>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,21 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { baseSepolia, mainnet } from 'wagmi/chains';
-
-if (!process.env.NEXT_PUBLIC_CHAIN_ID) {
-  throw new Error(`NEXT_PUBLIC_CHAIN_ID`)
-}
-
-const chainId = parseInt(process.env.NEXT_PUBLIC_CHAIN_ID)
+import { custom } from 'wagmi';
+import { DEMO_CHAIN, IS_DEMO_MODE } from './demo/demoChain';
+import { demoWallet } from './demo/demoWallet';
+import { lazyDemoProvider } from './demo/lazyDemoProvider';
+import { getDeploymentChains } from './deployments';
 
 export const config = getDefaultConfig({
   appName: 'Security Deposit Pool',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'default-project-id',
-  chains: [chainId === 1 ? mainnet : baseSepolia],
+  // Every chain in the deployment registry, active deployment's chain first
+  chains: getDeploymentChains(),
   ssr: true,
+  // Demo mode: only the demo wallet, and reads served by the same in-memory chain
+  ...(IS_DEMO_MODE
+    ? {
+      wallets: [{ groupName: 'Demo', wallets: [demoWallet] }],
+      transports: { [DEMO_CHAIN.id]: custom(lazyDemoProvider) },
+    }
+    : {}),
 });
@@ -0,0 +1,382 @@
+import { Chain, isAddress } from 'viem';
+import { anvil, base, baseSepolia, mainnet, sepolia } from 'wagmi/chains';
+import { DEMO_CHAIN, DEMO_POOL_ADDRESS, DEMO_TOKEN_ADDRESS, IS_DEMO_MODE } from './demo/demoChain';
+import type { AllowlistConfig } from './allowlist';
+import type { Deployment } from './deployments';
+
+/**
+ * Schema of the app's `NEXT_PUBLIC_*` configuration, validated once when the app loads.
+ *
+ * Problems are collected as issues instead of thrown, so a misconfigured deploy renders
+ * the diagnostics screen (see `ConfigDiagnostics`) listing every bad variable rather
+ * than crashing on the first one. On-chain checks of the configured addresses run later,
+ * in `SecurityDepositPoolUtils.checkDeployment`.
+ */
+
+// Chains a pool can be deployed on
+export const SUPPORTED_CHAINS: Record<number, Chain> = {
+  [mainnet.id]: mainnet,
+  [base.id]: base,
+  [sepolia.id]: sepolia,
+  [baseSepolia.id]: baseSepolia,
+  // Local dev chain (anvil / hardhat)
+  [anvil.id]: anvil,
+  ...(IS_DEMO_MODE ? ({ [DEMO_CHAIN.id]: DEMO_CHAIN } as Record<number, Chain>) : {}),
+};
+
+export type ConfigIssueCode =
+  | 'missing'
+  | 'missing-start-block'
+  | 'invalid-json'
+  | 'invalid-registry'
+  | 'invalid-entry'
+  | 'invalid-address'
+  | 'unsupported-chain'
+  | 'invalid-number'
+  | 'invalid-url'
+  | 'invalid-root'
+  | 'duplicate-id'
+  | 'unknown-deployment'
+  // Found by the on-chain checks
+  | 'no-bytecode'
+  | 'token-mismatch'
+  // Found when loading the allowlist
+  | 'invalid-allowlist';
+
+export interface ConfigIssue {
+  // Environment variable, or a path inside the registry such as `NEXT_PUBLIC_DEPLOYMENTS[1].poolAddress`
+  variable: string;
+  code: ConfigIssueCode;
+  // Configured value, when there is one
+  value: string | null;
+  // Context of the problem, e.g. the parse error or the token the pool actually uses
+  detail?: string;
+}
+
+// Variable each on-chain field of a deployment was read from
+export interface DeploymentSources {
+  chainId: string;
+  poolAddress: string;
+  tokenAddress: string;
+  allowlistUrl?: string;
+}
+
+export interface RuntimeConfig {
+  deployments: Deployment[];
+  // `NEXT_PUBLIC_ACTIVE_DEPLOYMENT`, when set and known
+  activeDeploymentId: string | null;
+  // Keyed by deployment id
+  sources: Record<string, DeploymentSources>;
+  mainnetRpcUrl: string | null;
+}
+
+// Each variable is read literally so Next.js inlines it into the client bundle
+const ENV = {
+  NEXT_PUBLIC_DEPLOYMENTS: process.env.NEXT_PUBLIC_DEPLOYMENTS,
+  NEXT_PUBLIC_ACTIVE_DEPLOYMENT: process.env.NEXT_PUBLIC_ACTIVE_DEPLOYMENT,
+  NEXT_PUBLIC_CHAIN_ID: process.env.NEXT_PUBLIC_CHAIN_ID,
+  NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS: process.env.NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS,
+  NEXT_PUBLIC_USDT_ADDRESS: process.env.NEXT_PUBLIC_USDT_ADDRESS,
+  NEXT_PUBLIC_COHORT_LABEL: process.env.NEXT_PUBLIC_COHORT_LABEL,
+  NEXT_PUBLIC_START_BLOCK: process.env.NEXT_PUBLIC_START_BLOCK,
+  NEXT_PUBLIC_COURSE_START_TIME: process.env.NEXT_PUBLIC_COURSE_START_TIME,
+  NEXT_PUBLIC_ALLOWLIST_URL: process.env.NEXT_PUBLIC_ALLOWLIST_URL,
+  NEXT_PUBLIC_ALLOWLIST_ROOT: process.env.NEXT_PUBLIC_ALLOWLIST_ROOT,
+  NEXT_PUBLIC_MAINNET_RPC_URL: process.env.NEXT_PUBLIC_MAINNET_RPC_URL,
+};
+
+type DeploymentField =
+  | 'id'
+  | 'cohort'
+  | 'chainId'
+  | 'poolAddress'
+  | 'tokenAddress'
+  | 'startBlock'
+  | 'courseStartTime'
+  | 'allowlistUrl'
+  | 'allowlistRoot';
+
+const integerRegex = /^\d+$/;
+const merkleRootRegex = /^0x[0-9a-fA-F]{64}$/;
+
+function isBlank(raw: unknown): boolean {
+  return raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+}
+
+function display(raw: unknown): string {
+  return typeof raw === 'string' ? raw : JSON.stringify(raw);
+}
+
+function readAddress(issues: ConfigIssue[], variable: string, raw: unknown): `0x${string}` | null {
+  if (isBlank(raw)) {
+    issues.push({ variable, code: 'missing', value: null });
+    return null;
+  }
+  if (typeof raw !== 'string' || !isAddress(raw.trim(), { strict: false })) {
+    issues.push({ variable, code: 'invalid-address', value: display(raw) });
+    return null;
+  }
+  return raw.trim() as `0x${string}`;
+}
+
+function readChainId(issues: ConfigIssue[], variable: string, raw: unknown): number | null {
+  if (isBlank(raw)) {
+    issues.push({ variable, code: 'missing', value: null });
+    return null;
+  }
+  const chainId = Number(raw);
+  if (!SUPPORTED_CHAINS[chainId]) {
+    issues.push({
+      variable,
+      code: 'unsupported-chain',
+      value: display(raw),
+      detail: Object.keys(SUPPORTED_CHAINS).join(', '),
+    });
+    return null;
+  }
+  return chainId;
+}
+
+// Optional non-negative integer; undefined when absent, null when invalid
+function readOptionalInteger(issues: ConfigIssue[], variable: string, raw: unknown): string | null | undefined {
+  if (isBlank(raw)) {
+    return undefined;
+  }
+  const value = String(raw).trim();
+  if (!integerRegex.test(value)) {
+    issues.push({ variable, code: 'invalid-number', value: display(raw) });
+    return null;
+  }
+  return value;
+}
+
+function readOptionalUrl(issues: ConfigIssue[], variable: string, raw: string | undefined): string | null {
+  if (raw === undefined || isBlank(raw)) {
+    return null;
+  }
+  try {
+    const url = new URL(raw.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`Unsupported protocol ${url.protocol}`);
+    }
+    return url.toString();
+  } catch {
+    issues.push({ variable, code: 'invalid-url', value: raw });
+    return null;
+  }
+}
+
+// Optional allowlist; a Merkle root needs the file its proofs are read from
+function readAllowlist(
+  issues: ConfigIssue[],
+  variables: Record<'allowlistUrl' | 'allowlistRoot', string>,
+  rawUrl: unknown,
+  rawRoot: unknown
+): AllowlistConfig | null {
+  let merkleRoot: `0x${string}` | null = null;
+  if (!isBlank(rawRoot)) {
+    if (typeof rawRoot !== 'string' || !merkleRootRegex.test(rawRoot.trim())) {
+      issues.push({ variable: variables.allowlistRoot, code: 'invalid-root', value: display(rawRoot) });
+    } else {
+      merkleRoot = rawRoot.trim() as `0x${string}`;
+    }
+  }
+
+  if (isBlank(rawUrl)) {
+    if (!isBlank(rawRoot)) {
+      issues.push({ variable: variables.allowlistUrl, code: 'missing', value: null });
+    }
+    return null;
+  }
+  if (typeof rawUrl !== 'string') {
+    issues.push({ variable: variables.allowlistUrl, code: 'invalid-url', value: display(rawUrl) });
+    return null;
+  }
+  // Files served by the app itself (e.g. from `public/`) may be given as a path
+  const url = rawUrl.trim().startsWith('/') ? rawUrl.trim() : readOptionalUrl(issues, variables.allowlistUrl, rawUrl);
+  return url ? { url, merkleRoot } : null;
+}
+
+/**
+ * Validate one deployment; every problem is recorded, and null returned if there was any
+ * @param values - Raw field values
+ * @param variables - Variable (or registry path) each field was read from
+ */
+function readDeployment(
+  issues: ConfigIssue[],
+  values: Record<DeploymentField, unknown>,
+  variables: Record<DeploymentField, string>
+): Deployment | null {
+  const issueCount = issues.length;
+
+  if (isBlank(values.id) || typeof values.id !== 'string') {
+    issues.push({ variable: variables.id, code: 'missing', value: null });
+  }
+  const chainId = readChainId(issues, variables.chainId, values.chainId);
+  const poolAddress = readAddress(issues, variables.poolAddress, values.poolAddress);
+  const tokenAddress = readAddress(issues, variables.tokenAddress, values.tokenAddress);
+  const startBlock = readOptionalInteger(issues, variables.startBlock, values.startBlock);
+  // Event scans (history, pool statistics, webhooks) start here; from block 0 a live chain takes millions of requests
+  if (startBlock === undefined && chainId !== null && chainId !== anvil.id) {
+    issues.push({ variable: variables.startBlock, code: 'missing-start-block', value: null });
+  }
+  const courseStartTime = readOptionalInteger(issues, variables.courseStartTime, values.courseStartTime);
+  const allowlist = readAllowlist(issues, variables, values.allowlistUrl, values.allowlistRoot);
+
+  if (issues.length > issueCount || chainId === null || !poolAddress || !tokenAddress) {
+    return null;
+  }
+  const id = (values.id as string).trim();
+  return {
+    id,
+    cohort: typeof values.cohort === 'string' && values.cohort.trim() !== '' ? values.cohort.trim() : id,
+    chainId,
+    poolAddress,
+    tokenAddress,
+    startBlock: BigInt(startBlock ?? 0),
+    courseStartTime: courseStartTime ? Number(courseStartTime) : null,
+    allowlist,
+  };
+}
+
+function readRegistry(issues: ConfigIssue[], json: string): { deployments: Deployment[]; sources: Record<string, DeploymentSources> } {
+  const variable = 'NEXT_PUBLIC_DEPLOYMENTS';
+  const deployments: Deployment[] = [];
+  const sources: Record<string, DeploymentSources> = {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    issues.push({ variable, code: 'invalid-json', value: null, detail: error instanceof Error ? error.message : undefined });
+    return { deployments, sources };
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    issues.push({ variable, code: 'invalid-registry', value: null });
+    return { deployments, sources };
+  }
+
+  parsed.forEach((raw: unknown, index) => {
+    const prefix = `${variable}[${index}]`;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      issues.push({ variable: prefix, code: 'invalid-entry', value: display(raw) });
+      return;
+    }
+    const entry = raw as Record<DeploymentField, unknown>;
+    const variables = {
+      id: `${prefix}.id`,
+      cohort: `${prefix}.cohort`,
+      chainId: `${prefix}.chainId`,
+      poolAddress: `${prefix}.poolAddress`,
+      tokenAddress: `${prefix}.tokenAddress`,
+      startBlock: `${prefix}.startBlock`,
+      courseStartTime: `${prefix}.courseStartTime`,
+      allowlistUrl: `${prefix}.allowlistUrl`,
+      allowlistRoot: `${prefix}.allowlistRoot`,
+    };
+    const id = entry.id;
+    if (typeof id === 'string' && deployments.some((item) => item.id === id.trim())) {
+      issues.push({ variable: variables.id, code: 'duplicate-id', value: id });
+      return;
+    }
+    const deployment = readDeployment(issues, entry, variables);
+    if (deployment) {
+      deployments.push(deployment);
+      sources[deployment.id] = variables;
+    }
+  });
+
+  return { deployments, sources };
+}
+
+function readLegacyDeployment(issues: ConfigIssue[]): { deployments: Deployment[]; sources: Record<string, DeploymentSources> } {
+  const variables = {
+    // The legacy deployment always has the id "default"
+    id: 'default',
+    cohort: 'NEXT_PUBLIC_COHORT_LABEL',
+    chainId: 'NEXT_PUBLIC_CHAIN_ID',
+    poolAddress: 'NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS',
+    tokenAddress: 'NEXT_PUBLIC_USDT_ADDRESS',
+    startBlock: 'NEXT_PUBLIC_START_BLOCK',
+    courseStartTime: 'NEXT_PUBLIC_COURSE_START_TIME',
+    allowlistUrl: 'NEXT_PUBLIC_ALLOWLIST_URL',
+    allowlistRoot: 'NEXT_PUBLIC_ALLOWLIST_ROOT',
+  };
+  const deployment = readDeployment(issues, {
+    id: 'default',
+    cohort: ENV.NEXT_PUBLIC_COHORT_LABEL || 'Hell Month',
+    chainId: ENV.NEXT_PUBLIC_CHAIN_ID,
+    poolAddress: ENV.NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS,
+    tokenAddress: ENV.NEXT_PUBLIC_USDT_ADDRESS,
+    startBlock: ENV.NEXT_PUBLIC_START_BLOCK,
+    courseStartTime: ENV.NEXT_PUBLIC_COURSE_START_TIME,
+    allowlistUrl: ENV.NEXT_PUBLIC_ALLOWLIST_URL,
+    allowlistRoot: ENV.NEXT_PUBLIC_ALLOWLIST_ROOT,
+  }, variables);
+  return deployment
+    ? { deployments: [deployment], sources: { [deployment.id]: variables } }
+    : { deployments: [], sources: {} };
+}
+
+/**
+ * Validate the whole configuration
+ * @returns The usable configuration, and every problem found in it
+ */
+function validateRuntimeConfig(): { config: RuntimeConfig; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+
+  let registry: { deployments: Deployment[]; sources: Record<string, DeploymentSources> };
+  if (IS_DEMO_MODE) {
+    // The simulated pool needs no other variable
+    registry = {
+      deployments: [{
+        id: 'demo',
+        cohort: 'Demo',
+        chainId: DEMO_CHAIN.id,
+        poolAddress: DEMO_POOL_ADDRESS,
+        tokenAddress: DEMO_TOKEN_ADDRESS,
+        startBlock: BigInt(0),
+        courseStartTime: null,
+        allowlist: null,
+      }],
+      sources: {
+        demo: { chainId: 'NEXT_PUBLIC_DEMO_MODE', poolAddress: 'NEXT_PUBLIC_DEMO_MODE', tokenAddress: 'NEXT_PUBLIC_DEMO_MODE' },
+      },
+    };
+  } else if (!isBlank(ENV.NEXT_PUBLIC_DEPLOYMENTS)) {
+    registry = readRegistry(issues, ENV.NEXT_PUBLIC_DEPLOYMENTS as string);
+  } else {
+    registry = readLegacyDeployment(issues);
+  }
+
+  let activeDeploymentId: string | null = null;
+  const activeId = ENV.NEXT_PUBLIC_ACTIVE_DEPLOYMENT?.trim();
+  if (activeId && !IS_DEMO_MODE) {
+    if (registry.deployments.some((item) => item.id === activeId)) {
+      activeDeploymentId = activeId;
+    } else if (issues.length === 0) {
+      // Only meaningful once the registry itself is valid
+      issues.push({ variable: 'NEXT_PUBLIC_ACTIVE_DEPLOYMENT', code: 'unknown-deployment', value: activeId });
+    }
+  }
+
+  return {
+    config: {
+      deployments: registry.deployments,
+      activeDeploymentId,
+      sources: registry.sources,
+      mainnetRpcUrl: readOptionalUrl(issues, 'NEXT_PUBLIC_MAINNET_RPC_URL', ENV.NEXT_PUBLIC_MAINNET_RPC_URL),
+    },
+    issues,
+  };
+}
+
+const validated = validateRuntimeConfig();
+
+// Validated once per page load
+export const RUNTIME_CONFIG: RuntimeConfig = validated.config;
+export const CONFIG_ISSUES: readonly ConfigIssue[] = validated.issues;
+
+if (CONFIG_ISSUES.length > 0) {
+  console.error('Invalid configuration:', CONFIG_ISSUES);
+}
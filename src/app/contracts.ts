@@ -1,37 +1,50 @@
-import { Contract, BrowserProvider, JsonRpcSigner } from 'ethers';
-import { SecurityDepositPool__factory, SecurityDepositPool } from '@hell-month/security-deposit-sdk';
-import { getWalletClient, getPublicClient } from '@wagmi/core';
-import { config } from './config';
+import { Contract, BrowserProvider, Interface, isError, JsonRpcSigner, TransactionResponse } from 'ethers';
+import { BaseError, ContractFunctionRevertedError, erc20Abi, TransactionReceipt } from 'viem';
+import {
+  Config,
+  getWalletClient,
+  getPublicClient,
+  getCapabilities,
+  sendCalls,
+  waitForCallsStatus,
+} from '@wagmi/core';
+import { readContractQueryOptions, readContractsQueryOptions } from '@wagmi/core/query';
+import { QueryClient } from '@tanstack/react-query';
+import { SecurityDepositPool__factory, SecurityDepositPool } from './abi';
+import { queryClient } from './queryClient';
+import { TokenMetadata } from './token';
+import { DepositPoolError, toDepositPoolError } from './errors';
+import { ACTIVE_DEPLOYMENT, Deployment } from './deployments';
+import { ConfigIssue, RUNTIME_CONFIG } from './configSchema';
 
-if (!process.env.NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS) {
-  throw new Error(`NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS`)
-}
-if (!process.env.NEXT_PUBLIC_USDT_ADDRESS) {
-  throw new Error(`NEXT_PUBLIC_USDT_ADDRESS`)
-}
-if (!process.env.NEXT_PUBLIC_CHAIN_ID) {
-  throw new Error(`NEXT_PUBLIC_CHAIN_ID`)
+/**
+ * Wagmi config of the app, loaded on demand: it is built by RainbowKit, which only
+ * runs in client bundles, and the read path is also used by the API routes
+ */
+async function getAppConfig(): Promise<Config> {
+  return (await import('./config')).config;
 }
 
-// Contract addresses from environment variables
+// Contract addresses of the active deployment in the registry
 export const CONTRACT_ADDRESSES = {
-  SECURITY_DEPOSIT_POOL: process.env.NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS,
-  USDT: process.env.NEXT_PUBLIC_USDT_ADDRESS,
-  CHAIN_ID: parseInt(process.env.NEXT_PUBLIC_CHAIN_ID),
+  SECURITY_DEPOSIT_POOL: ACTIVE_DEPLOYMENT.poolAddress,
+  USDT: ACTIVE_DEPLOYMENT.tokenAddress,
+  CHAIN_ID: ACTIVE_DEPLOYMENT.chainId,
 } as const;
 
 /**
  * Validates that required contract addresses are configured
+ * @param deployment - Deployment to validate (defaults to the active deployment)
  * @throws Error if required addresses are missing
  */
-export function validateContractAddresses(): void {
-  if (!CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL) {
+export function validateContractAddresses(deployment: Deployment = ACTIVE_DEPLOYMENT): void {
+  if (!deployment.poolAddress) {
     throw new Error(
       'NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS environment variable is required'
     );
   }
   
-  if (!CONTRACT_ADDRESSES.USDT) {
+  if (!deployment.tokenAddress) {
     throw new Error(
       'NEXT_PUBLIC_USDT_ADDRESS environment variable is required'
     );
@@ -39,17 +52,19 @@ export function validateContractAddresses(): void {
   
   // Validate addresses are valid Ethereum addresses (basic check)
   const addressRegex = /^0x[a-fA-F0-9]{40}$/;
-  if (!addressRegex.test(CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL)) {
+  if (!addressRegex.test(deployment.poolAddress)) {
     throw new Error('Invalid Security Deposit Pool contract address format');
   }
   
-  if (!addressRegex.test(CONTRACT_ADDRESSES.USDT)) {
+  if (!addressRegex.test(deployment.tokenAddress)) {
     throw new Error('Invalid USDT contract address format');
   }
 }
 
-// Standard ERC20 ABI for USDT contract interactions
+// Standard ERC20 ABI for deposit token (e.g. USDT) contract interactions
 const ERC20_ABI = [
+  'function decimals() external view returns (uint8)',
+  'function symbol() external view returns (string)',
   'function approve(address spender, uint256 amount) external returns (bool)',
   'function allowance(address owner, address spender) external view returns (uint256)',
   'function balanceOf(address account) external view returns (uint256)',
@@ -57,42 +72,93 @@ const ERC20_ABI = [
   'function transferFrom(address from, address to, uint256 amount) external returns (bool)',
 ] as const;
 
+// Pool-wide state, independent of any wallet
+export interface PoolSummary {
+  flatDepositAmount: bigint;
+  courseFinalizedTime: bigint;
+  // Deposit token held by the pool
+  poolBalance: bigint;
+  totalSlashed: bigint;
+}
+
+// Transactions the deposit flow sends one at a time
+export type TransactionKind = 'reset-allowance' | 'approve' | 'deposit' | 'withdraw';
+
+// Expected network fee of a transaction, checked against the wallet's native balance
+export interface FeeEstimate {
+  gas: bigint;
+  maxFeePerGas: bigint;
+  // Upper bound of the fee: gas * maxFeePerGas
+  fee: bigint;
+  nativeBalance: bigint;
+  nativeCurrency: { symbol: string; decimals: number };
+  isAffordable: boolean;
+  // False when the transaction would revert right now (e.g. deposit before approval) and a typical gas limit was used
+  isGasEstimated: boolean;
+}
+
+// Typical gas use, for transactions that cannot be simulated yet
+const FALLBACK_GAS_LIMITS: Record<TransactionKind, bigint> = {
+  'reset-allowance': BigInt(50000),
+  approve: BigInt(60000),
+  deposit: BigInt(120000),
+  withdraw: BigInt(80000),
+};
+
+// Everything the deposit flow reads for a wallet, fetched in one multicall
+export interface DepositStatus {
+  hasDeposited: boolean;
+  // Remaining deposit after any slashing (0 once withdrawn)
+  remainingDeposit: bigint;
+  flatDepositAmount: bigint;
+  // Token allowance granted to the pool
+  allowance: bigint;
+  // Token balance of the wallet
+  balance: bigint;
+}
+
 /**
  * Creates a SecurityDepositPool contract instance
  * @param signerOrProvider - Ethers signer or provider
+ * @param poolAddress - Pool address (defaults to the active deployment)
  * @returns SecurityDepositPool contract instance
  */
 export function getSecurityDepositPoolContract(
-  signerOrProvider: JsonRpcSigner | BrowserProvider
+  signerOrProvider: JsonRpcSigner | BrowserProvider,
+  poolAddress: string = CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL
 ): SecurityDepositPool {
-  if (!CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL) {
+  if (!poolAddress) {
     throw new Error(
-      'Security Deposit Pool contract address not configured. Please set NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS environment variable.'
+      'Security Deposit Pool contract address not configured. Please add the pool to the deployment registry.'
     );
   }
   
-  return SecurityDepositPool__factory.connect(
-    CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL,
-    signerOrProvider
-  );
+  return SecurityDepositPool__factory.connect(poolAddress, signerOrProvider);
 }
 
 /**
  * Creates a USDT contract instance
  * @param signerOrProvider - Ethers signer or provider
+ * @param tokenAddress - Deposit token address (defaults to the active deployment)
  * @returns USDT contract instance
  */
-export function getUSDTContract(signerOrProvider: JsonRpcSigner | BrowserProvider): Contract {
-  return new Contract(CONTRACT_ADDRESSES.USDT, ERC20_ABI, signerOrProvider);
+export function getUSDTContract(
+  signerOrProvider: JsonRpcSigner | BrowserProvider,
+  tokenAddress: string = CONTRACT_ADDRESSES.USDT
+): Contract {
+  return new Contract(tokenAddress, ERC20_ABI, signerOrProvider);
 }
 
 /**
  * Contract interaction utilities for SecurityDepositPool
+ *
+ * Reads are typed viem calls through the shared QueryClient (batched with multicall);
+ * transactions are signed with the ethers signer, so read-only instances have none.
  * 
  * @example
  * ```typescript
- * // Create contract utils instance
- * const contractUtils = await createContractUtils();
+ * // Create contract utils instance for a deployment from the registry
+ * const contractUtils = await createContractUtils(deployment);
  * 
  * // Check if user has deposited
  * const hasDeposited = await contractUtils.hasDeposited(userAddress);
@@ -107,18 +173,239 @@ export function getUSDTContract(signerOrProvider: JsonRpcSigner | BrowserProvide
  * // Make deposit
  * const depositTx = await contractUtils.deposit();
  * await depositTx.wait();
+ *
+ * // Claim the refund once the course is finalized
+ * const withdrawTx = await contractUtils.withdraw();
+ * await withdrawTx.wait();
  * ```
  */
 export class SecurityDepositPoolUtils {
-  private contract: SecurityDepositPool;
-  private usdtContract: Contract;
+  // Signer-bound contracts for transactions; null for read-only instances
+  private contract: SecurityDepositPool | null;
+  private usdtContract: Contract | null;
+  private deployment: Deployment;
+  // Wagmi config reads go through: the app's, or a server-side one (see `api/serverConfig`)
+  private config: Config;
+  // Cache of the reads; the server has its own with a bounded lifetime (see `api/serverConfig`)
+  private queryClient: QueryClient;
 
-  constructor(signerOrProvider: JsonRpcSigner | BrowserProvider) {
+  constructor(
+    signer: JsonRpcSigner | null,
+    deployment: Deployment,
+    wagmiConfig: Config,
+    readQueryClient: QueryClient = queryClient
+  ) {
     // Validate contract addresses before creating instances
-    validateContractAddresses();
+    try {
+      validateContractAddresses(deployment);
+    } catch (error) {
+      console.error('Invalid contract configuration:', error);
+      throw new DepositPoolError({ code: 'CONFIGURATION_ERROR' }, { cause: error });
+    }
     
-    this.contract = getSecurityDepositPoolContract(signerOrProvider);
-    this.usdtContract = getUSDTContract(signerOrProvider);
+    this.deployment = deployment;
+    this.config = wagmiConfig;
+    this.queryClient = readQueryClient;
+    this.contract = signer ? getSecurityDepositPoolContract(signer, deployment.poolAddress) : null;
+    this.usdtContract = signer ? getUSDTContract(signer, deployment.tokenAddress) : null;
+  }
+
+  private get poolContract() {
+    return { address: this.deployment.poolAddress, abi: SecurityDepositPool__factory.abi, chainId: this.deployment.chainId } as const;
+  }
+
+  private get tokenContract() {
+    return { address: this.deployment.tokenAddress, abi: erc20Abi, chainId: this.deployment.chainId } as const;
+  }
+
+  private getSignerContracts(): { contract: SecurityDepositPool; usdtContract: Contract } {
+    if (!this.contract || !this.usdtContract) {
+      throw new DepositPoolError({ code: 'WALLET_NOT_CONNECTED' });
+    }
+    return { contract: this.contract, usdtContract: this.usdtContract };
+  }
+
+  private getPublicClient() {
+    const publicClient = getPublicClient(this.config, { chainId: this.deployment.chainId });
+    if (!publicClient) {
+      throw new DepositPoolError({ code: 'UNSUPPORTED_CHAIN' });
+    }
+    return publicClient;
+  }
+
+  /**
+   * Read everything the deposit flow needs for a wallet in a single multicall
+   * @param userAddress - User's wallet address
+   * @returns Promise<DepositStatus> - Deposit, allowance and balance of the wallet
+   */
+  async getDepositStatus(userAddress: `0x${string}`): Promise<DepositStatus> {
+    try {
+      const [hasDeposited, remainingDeposit, flatDepositAmount, allowance, balance] = await this.queryClient.fetchQuery(
+        readContractsQueryOptions(this.config, {
+          allowFailure: false,
+          contracts: [
+            { ...this.poolContract, functionName: 'hasDeposited', args: [userAddress] },
+            { ...this.poolContract, functionName: 'deposits', args: [userAddress] },
+            { ...this.poolContract, functionName: 'flatDepositAmount' },
+            { ...this.tokenContract, functionName: 'allowance', args: [userAddress, this.deployment.poolAddress] },
+            { ...this.tokenContract, functionName: 'balanceOf', args: [userAddress] },
+          ],
+        })
+      );
+      return { hasDeposited, remainingDeposit, flatDepositAmount, allowance, balance };
+    } catch (error) {
+      console.error('Error reading deposit status:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Read the pool-wide state in a single multicall
+   * @returns Promise<PoolSummary> - Deposit amount, finalization time, token balance and slashed total of the pool
+   */
+  async getPoolSummary(): Promise<PoolSummary> {
+    try {
+      const [flatDepositAmount, courseFinalizedTime, poolBalance, totalSlashed] = await this.queryClient.fetchQuery(
+        readContractsQueryOptions(this.config, {
+          allowFailure: false,
+          contracts: [
+            { ...this.poolContract, functionName: 'flatDepositAmount' },
+            { ...this.poolContract, functionName: 'courseFinalizedTime' },
+            { ...this.tokenContract, functionName: 'balanceOf', args: [this.deployment.poolAddress] },
+            { ...this.poolContract, functionName: 'totalSlashed' },
+          ],
+        })
+      );
+      return { flatDepositAmount, courseFinalizedTime, poolBalance, totalSlashed };
+    } catch (error) {
+      console.error('Error reading pool summary:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Check the configured addresses against the chain: both must hold contract code,
+   * and the pool must take deposits in the configured token
+   * @returns Promise<ConfigIssue[]> - Problems found, empty when the deployment is consistent
+   * @throws DepositPoolError with the classified error if the chain cannot be read
+   */
+  async checkDeployment(): Promise<ConfigIssue[]> {
+    try {
+      const publicClient = this.getPublicClient();
+      const sources = RUNTIME_CONFIG.sources[this.deployment.id];
+      const chainName = publicClient.chain?.name ?? String(this.deployment.chainId);
+      const issues: ConfigIssue[] = [];
+
+      const [poolCode, tokenCode] = await Promise.all([
+        publicClient.getCode({ address: this.deployment.poolAddress }),
+        publicClient.getCode({ address: this.deployment.tokenAddress }),
+      ]);
+      if (!poolCode || poolCode === '0x') {
+        issues.push({ variable: sources.poolAddress, code: 'no-bytecode', value: this.deployment.poolAddress, detail: chainName });
+      }
+      if (!tokenCode || tokenCode === '0x') {
+        issues.push({ variable: sources.tokenAddress, code: 'no-bytecode', value: this.deployment.tokenAddress, detail: chainName });
+      }
+
+      // The token check needs a pool to ask
+      if (issues.length === 0) {
+        const poolToken = await this.queryClient.fetchQuery(
+          readContractQueryOptions(this.config, { ...this.poolContract, functionName: 'usdt' })
+        );
+        if (poolToken.toLowerCase() !== this.deployment.tokenAddress.toLowerCase()) {
+          issues.push({ variable: sources.tokenAddress, code: 'token-mismatch', value: this.deployment.tokenAddress, detail: poolToken });
+        }
+      }
+      return issues;
+    } catch (error) {
+      console.error('Error checking deployment:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Estimate the network fee of a transaction and check it against the wallet's native balance
+   * @param userAddress - User's wallet address
+   * @param kind - Transaction to estimate
+   * @param amount - Amount to approve (approve only)
+   * @returns Promise<FeeEstimate> - Gas, fee and whether the wallet can pay for it
+   * @throws DepositPoolError with the classified error
+   */
+  async estimateFee(userAddress: `0x${string}`, kind: TransactionKind, amount: bigint = BigInt(0)): Promise<FeeEstimate> {
+    try {
+      const publicClient = this.getPublicClient();
+      const pool = { address: this.deployment.poolAddress, abi: SecurityDepositPool__factory.abi, account: userAddress } as const;
+      const token = { address: this.deployment.tokenAddress, abi: erc20Abi, account: userAddress } as const;
+
+      const estimateGas = (): Promise<bigint> => {
+        switch (kind) {
+          case 'reset-allowance':
+            return publicClient.estimateContractGas({ ...token, functionName: 'approve', args: [this.deployment.poolAddress, BigInt(0)] });
+          case 'approve':
+            return publicClient.estimateContractGas({ ...token, functionName: 'approve', args: [this.deployment.poolAddress, amount] });
+          case 'deposit':
+            return publicClient.estimateContractGas({ ...pool, functionName: 'deposit' });
+          case 'withdraw':
+            return publicClient.estimateContractGas({ ...pool, functionName: 'withdraw' });
+        }
+      };
+
+      const [gasEstimate, maxFeePerGas, nativeBalance] = await Promise.all([
+        estimateGas().then(
+          (gas) => ({ gas, isGasEstimated: true }),
+          (error) => {
+            if (error instanceof BaseError && error.walk((cause) => cause instanceof ContractFunctionRevertedError)) {
+              return { gas: FALLBACK_GAS_LIMITS[kind], isGasEstimated: false };
+            }
+            throw error;
+          }
+        ),
+        // Chains without EIP-1559 only have a legacy gas price
+        publicClient.estimateFeesPerGas().then(
+          (fees) => fees.maxFeePerGas ?? fees.gasPrice ?? BigInt(0),
+          () => publicClient.getGasPrice()
+        ),
+        publicClient.getBalance({ address: userAddress }),
+      ]);
+
+      const fee = gasEstimate.gas * maxFeePerGas;
+      return {
+        gas: gasEstimate.gas,
+        maxFeePerGas,
+        fee,
+        nativeBalance,
+        nativeCurrency: publicClient.chain.nativeCurrency,
+        isAffordable: nativeBalance >= fee,
+        isGasEstimated: gasEstimate.isGasEstimated,
+      };
+    } catch (error) {
+      console.error('Error estimating transaction fee:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Read the deposit token's symbol and decimals
+   * @returns Promise<TokenMetadata> - Token metadata, cached for the session
+   */
+  async getTokenMetadata(): Promise<TokenMetadata> {
+    try {
+      const [decimals, symbol] = await this.queryClient.fetchQuery({
+        ...readContractsQueryOptions(this.config, {
+          allowFailure: false,
+          contracts: [
+            { ...this.tokenContract, functionName: 'decimals' },
+            { ...this.tokenContract, functionName: 'symbol' },
+          ],
+        }),
+        // Token metadata never changes
+        staleTime: Infinity,
+      });
+      return { decimals, symbol };
+    } catch (error) {
+      console.error('Error reading token metadata:', error);
+      throw toDepositPoolError(error);
+    }
   }
 
   /**
@@ -126,23 +413,38 @@ export class SecurityDepositPoolUtils {
    * @param userAddress - User's wallet address
    * @returns Promise<boolean> - True if user has deposited
    */
-  async hasDeposited(userAddress: string): Promise<boolean> {
+  async hasDeposited(userAddress: `0x${string}`): Promise<boolean> {
     try {
-      return await this.contract.hasDeposited(userAddress);
+      return await this.queryClient.fetchQuery(
+        readContractQueryOptions(this.config, { ...this.poolContract, functionName: 'hasDeposited', args: [userAddress] })
+      );
     } catch (error) {
       console.error('Error checking deposit status:', error);
-      if (error instanceof Error) {
-        if (error.message.includes('network') || error.message.includes('timeout')) {
-          throw new Error('Network error while checking deposit status. Please check your connection.');
-        } else if (error.message.includes('rate limit') || error.message.includes('429')) {
-          throw new Error('Rate limited while checking deposit status. Please wait and try again.');
-        } else if (error.message.includes('invalid address')) {
-          throw new Error('Invalid wallet address provided.');
-        } else {
-          throw new Error('Failed to check deposit status. Please try again.');
-        }
-      }
-      throw new Error('Failed to check deposit status');
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Check whether each of many addresses has deposited, in a single multicall
+   * @param userAddresses - Wallet addresses to check
+   * @returns Promise<boolean[]> - `hasDeposited` of each address, in the same order
+   */
+  async hasDepositedMany(userAddresses: `0x${string}`[]): Promise<boolean[]> {
+    if (userAddresses.length === 0) {
+      return [];
+    }
+    try {
+      return await this.queryClient.fetchQuery(
+        readContractsQueryOptions(this.config, {
+          allowFailure: false,
+          contracts: userAddresses.map(
+            (userAddress) => ({ ...this.poolContract, functionName: 'hasDeposited', args: [userAddress] }) as const
+          ),
+        })
+      );
+    } catch (error) {
+      console.error('Error checking deposit status of many addresses:', error);
+      throw toDepositPoolError(error);
     }
   }
 
@@ -152,19 +454,12 @@ export class SecurityDepositPoolUtils {
    */
   async getFlatDepositAmount(): Promise<bigint> {
     try {
-      return await this.contract.flatDepositAmount();
+      return await this.queryClient.fetchQuery(
+        readContractQueryOptions(this.config, { ...this.poolContract, functionName: 'flatDepositAmount' })
+      );
     } catch (error) {
       console.error('Error getting deposit amount:', error);
-      if (error instanceof Error) {
-        if (error.message.includes('network') || error.message.includes('timeout')) {
-          throw new Error('Network error while getting deposit amount. Please check your connection.');
-        } else if (error.message.includes('rate limit') || error.message.includes('429')) {
-          throw new Error('Rate limited while getting deposit amount. Please wait and try again.');
-        } else {
-          throw new Error('Failed to get deposit amount from contract. Please try again.');
-        }
-      }
-      throw new Error('Failed to get deposit amount');
+      throw toDepositPoolError(error);
     }
   }
 
@@ -172,32 +467,71 @@ export class SecurityDepositPoolUtils {
    * Approve USDT spending for the security deposit pool
    * @param amount - Amount to approve (in wei)
    * @returns Promise<any> - Transaction response
+   * @throws DepositPoolError with the classified error
    */
   async approveUSDT(amount: bigint) {
     try {
-      const tx = await this.usdtContract.approve(
-        CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL,
-        amount
-      );
+      const { usdtContract } = this.getSignerContracts();
+      const tx = await usdtContract.approve(this.deployment.poolAddress, amount);
       return tx;
     } catch (error) {
       console.error('Error approving USDT:', error);
-      if (error instanceof Error) {
-        if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-          throw new Error('User rejected the approval transaction.');
-        } else if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
-          throw new Error('Insufficient ETH balance for gas fees.');
-        } else if (error.message.includes('gas') || error.message.includes('Gas')) {
-          throw new Error('Gas estimation failed. Please try again with higher gas settings.');
-        } else if (error.message.includes('network') || error.message.includes('timeout')) {
-          throw new Error('Network error during approval. Please check your connection.');
-        } else if (error.message.includes('nonce')) {
-          throw new Error('Transaction nonce error. Please reset your wallet account.');
-        } else {
-          throw new Error('Failed to approve USDT spending. Please try again.');
-        }
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Set the USDT allowance of the pool back to 0
+   *
+   * USDT-style tokens revert when a non-zero allowance is changed to another
+   * non-zero value, so a stale partial allowance has to be cleared first.
+   * @returns Promise<any> - Transaction response
+   * @throws DepositPoolError with the classified error
+   */
+  async resetUSDTAllowance() {
+    try {
+      const { usdtContract } = this.getSignerContracts();
+      const tx = await usdtContract.approve(this.deployment.poolAddress, BigInt(0));
+      return tx;
+    } catch (error) {
+      console.error('Error resetting USDT allowance:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Check whether approving `amount` needs an allowance reset first
+   *
+   * Only a partial allowance (non-zero but below `amount`) can need one; the
+   * approval is then simulated to see whether the token rejects it.
+   * @param userAddress - User's wallet address
+   * @param currentAllowance - Current allowance of the pool
+   * @param amount - Amount that will be approved
+   * @returns Promise<boolean> - True if the allowance must be set to 0 before approving
+   */
+  async requiresAllowanceReset(
+    userAddress: `0x${string}`,
+    currentAllowance: bigint,
+    amount: bigint
+  ): Promise<boolean> {
+    if (currentAllowance === BigInt(0) || currentAllowance >= amount) {
+      return false;
+    }
+
+    try {
+      await this.getPublicClient().simulateContract({
+        ...this.tokenContract,
+        account: userAddress,
+        functionName: 'approve',
+        args: [this.deployment.poolAddress, amount],
+      });
+      return false;
+    } catch (error) {
+      if (error instanceof BaseError && error.walk((cause) => cause instanceof ContractFunctionRevertedError)) {
+        return true;
       }
-      throw new Error('Failed to approve USDT spending');
+      console.error('Error simulating USDT approval:', error);
+      throw toDepositPoolError(error);
     }
   }
 
@@ -206,50 +540,34 @@ export class SecurityDepositPoolUtils {
    * @param userAddress - User's wallet address
    * @returns Promise<bigint> - Current allowance amount
    */
-  async getUSDTAllowance(userAddress: string): Promise<bigint> {
+  async getUSDTAllowance(userAddress: `0x${string}`): Promise<bigint> {
     try {
-      return await this.usdtContract.allowance(
-        userAddress,
-        CONTRACT_ADDRESSES.SECURITY_DEPOSIT_POOL
+      return await this.queryClient.fetchQuery(
+        readContractQueryOptions(this.config, {
+          ...this.tokenContract,
+          functionName: 'allowance',
+          args: [userAddress, this.deployment.poolAddress],
+        })
       );
     } catch (error) {
       console.error('Error checking USDT allowance:', error);
-      throw new Error('Failed to check USDT allowance');
+      throw toDepositPoolError(error);
     }
   }
 
   /**
    * Make a deposit to the security deposit pool
    * @returns Promise<any> - Transaction response
+   * @throws DepositPoolError with the classified error
    */
   async deposit() {
     try {
-      const tx = await this.contract.deposit();
+      const { contract } = this.getSignerContracts();
+      const tx = await contract.deposit();
       return tx;
     } catch (error) {
       console.error('Error making deposit:', error);
-      if (error instanceof Error) {
-        if (error.message.includes('user rejected') || error.message.includes('User denied')) {
-          throw new Error('User rejected the deposit transaction.');
-        } else if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
-          throw new Error('Insufficient ETH balance for gas fees.');
-        } else if (error.message.includes('gas') || error.message.includes('Gas')) {
-          throw new Error('Gas estimation failed. Please try again with higher gas settings.');
-        } else if (error.message.includes('network') || error.message.includes('timeout')) {
-          throw new Error('Network error during deposit. Please check your connection.');
-        } else if (error.message.includes('allowance') || error.message.includes('ERC20: insufficient allowance')) {
-          throw new Error('USDT allowance insufficient. Please approve USDT spending first.');
-        } else if (error.message.includes('already deposited')) {
-          throw new Error('You have already made a deposit to this contract.');
-        } else if (error.message.includes('reverted') || error.message.includes('execution reverted')) {
-          throw new Error('Transaction was reverted by the contract. Please check contract conditions.');
-        } else if (error.message.includes('nonce')) {
-          throw new Error('Transaction nonce error. Please reset your wallet account.');
-        } else {
-          throw new Error('Failed to make deposit. Please try again.');
-        }
-      }
-      throw new Error('Failed to make deposit');
+      throw toDepositPoolError(error);
     }
   }
 
@@ -258,12 +576,86 @@ export class SecurityDepositPoolUtils {
    * @param userAddress - User's wallet address
    * @returns Promise<bigint> - USDT balance in wei
    */
-  async getUSDTBalance(userAddress: string): Promise<bigint> {
+  async getUSDTBalance(userAddress: `0x${string}`): Promise<bigint> {
     try {
-      return await this.usdtContract.balanceOf(userAddress);
+      return await this.queryClient.fetchQuery(
+        readContractQueryOptions(this.config, { ...this.tokenContract, functionName: 'balanceOf', args: [userAddress] })
+      );
     } catch (error) {
       console.error('Error getting USDT balance:', error);
-      throw new Error('Failed to get USDT balance');
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Get the remaining deposit of a user, after any slashing
+   * @param userAddress - User's wallet address
+   * @returns Promise<bigint> - Remaining deposit in wei (0 once withdrawn)
+   */
+  async getRemainingDeposit(userAddress: `0x${string}`): Promise<bigint> {
+    try {
+      return await this.queryClient.fetchQuery(
+        readContractQueryOptions(this.config, { ...this.poolContract, functionName: 'deposits', args: [userAddress] })
+      );
+    } catch (error) {
+      console.error('Error getting remaining deposit:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Withdraw the remaining deposit once the course has been finalized
+   * @returns Promise<any> - Transaction response
+   * @throws DepositPoolError with the classified error
+   */
+  async withdraw() {
+    try {
+      const { contract } = this.getSignerContracts();
+      const tx = await contract.withdraw();
+      return tx;
+    } catch (error) {
+      console.error('Error withdrawing deposit:', error);
+      throw toDepositPoolError(error);
+    }
+  }
+
+  /**
+   * Wait for a previously submitted transaction to be mined, e.g. after a page reload
+   * @param hash - Transaction hash
+   * @returns Promise<TransactionReceipt> - Receipt of the successful transaction
+   * @throws DepositPoolError if the transaction reverted or was dropped
+   */
+  async waitForTransaction(hash: `0x${string}`): Promise<TransactionReceipt> {
+    try {
+      const publicClient = this.getPublicClient();
+
+      // A transaction the node knows neither as pending nor as mined was dropped or replaced
+      const [transaction, existingReceipt] = await Promise.all([
+        publicClient.getTransaction({ hash }).catch(() => null),
+        publicClient.getTransactionReceipt({ hash }).catch(() => null),
+      ]);
+      if (!transaction && !existingReceipt) {
+        throw new DepositPoolError({ code: 'TRANSACTION_DROPPED' });
+      }
+
+      // A sped-up transaction ('repriced') still counts; a cancelled or replaced one does not
+      const replacement: { reason?: string } = {};
+      const receipt = existingReceipt ?? await publicClient.waitForTransactionReceipt({
+        hash,
+        onReplaced: ({ reason }) => {
+          replacement.reason = reason;
+        },
+      });
+      if (replacement.reason === 'cancelled' || replacement.reason === 'replaced') {
+        throw new DepositPoolError({ code: 'TRANSACTION_DROPPED' });
+      }
+      if (receipt.status !== 'success') {
+        throw new DepositPoolError({ code: 'CONTRACT_REVERTED', errorName: null });
+      }
+      return receipt;
+    } catch (error) {
+      console.error('Error waiting for transaction:', error);
+      throw toDepositPoolError(error);
     }
   }
 
@@ -273,16 +665,116 @@ export class SecurityDepositPoolUtils {
    */
   async getCourseFinalizedTime(): Promise<bigint> {
     try {
-      return await this.contract.courseFinalizedTime();
+      return await this.queryClient.fetchQuery(
+        readContractQueryOptions(this.config, { ...this.poolContract, functionName: 'courseFinalizedTime' })
+      );
     } catch (error) {
       console.error('Error getting course finalized time:', error);
-      throw new Error('Failed to get course finalized time');
+      throw toDepositPoolError(error);
+    }
+  }
+}
+
+/**
+ * Check whether the connected wallet can send atomic call batches (EIP-5792)
+ * @param deployment - Deployment whose chain is checked (defaults to the active deployment)
+ * @returns Promise<boolean> - True if `wallet_sendCalls` with atomic execution is available
+ */
+export async function supportsAtomicBatch(deployment: Deployment = ACTIVE_DEPLOYMENT): Promise<boolean> {
+  try {
+    const capabilities = await getCapabilities(await getAppConfig(), { chainId: deployment.chainId });
+    const atomicStatus = capabilities.atomic?.status;
+    return atomicStatus === 'supported' || atomicStatus === 'ready';
+  } catch (error) {
+    // Wallets without EIP-5792 reject `wallet_getCapabilities`
+    console.warn('Wallet capabilities unavailable, using two-step flow:', error);
+    return false;
+  }
+}
+
+/**
+ * Send the USDT approval and the pool deposit as one atomic batch (EIP-5792)
+ * @param amount - Amount to approve (in wei)
+ * @param deployment - Deployment to deposit into (defaults to the active deployment)
+ * @returns Promise<string> - Batch id to track with `waitForCallsBatch`
+ * @throws DepositPoolError with the classified error
+ */
+export async function sendApproveAndDepositBatch(
+  amount: bigint,
+  deployment: Deployment = ACTIVE_DEPLOYMENT
+): Promise<string> {
+  try {
+    validateContractAddresses(deployment);
+
+    const { id } = await sendCalls(await getAppConfig(), {
+      chainId: deployment.chainId,
+      forceAtomic: true,
+      calls: [
+        {
+          to: deployment.tokenAddress,
+          data: new Interface(ERC20_ABI).encodeFunctionData('approve', [
+            deployment.poolAddress,
+            amount,
+          ]) as `0x${string}`,
+        },
+        {
+          to: deployment.poolAddress,
+          data: SecurityDepositPool__factory.createInterface().encodeFunctionData('deposit') as `0x${string}`,
+        },
+      ],
+    });
+    return id;
+  } catch (error) {
+    console.error('Error sending approve and deposit batch:', error);
+    throw toDepositPoolError(error);
+  }
+}
+
+/**
+ * Wait for a call batch to be mined, tracked through `wallet_getCallsStatus`
+ * @param id - Batch id returned by `sendApproveAndDepositBatch`
+ * @returns Promise<string | null> - Hash of the transaction that included the deposit, if the wallet reports it
+ * @throws DepositPoolError if the batch reverted or is unknown to the wallet
+ */
+export async function waitForCallsBatch(id: string): Promise<string | null> {
+  try {
+    const { status, receipts } = await waitForCallsStatus(await getAppConfig(), {
+      id,
+      timeout: 30 * 60 * 1000, // 30 minutes
+    });
+    if (status !== 'success') {
+      throw new DepositPoolError({ code: 'CONTRACT_REVERTED', errorName: null });
     }
+    // The deposit is the last call of the batch
+    return receipts?.[receipts.length - 1]?.transactionHash ?? null;
+  } catch (error) {
+    console.error('Error waiting for call batch:', error);
+    throw toDepositPoolError(error);
   }
 }
 
 /**
- * Convert wagmi wallet client to ethers provider
+ * Wait for a submitted transaction to be mined, following the wallet if it speeds the transaction up
+ * @param tx - Transaction response returned when the transaction was sent
+ * @returns Promise<string> - Hash of the mined transaction; differs from `tx.hash` when the wallet repriced it
+ * @throws DepositPoolError if the transaction reverted, or was cancelled or replaced (TRANSACTION_DROPPED)
+ */
+export async function waitForConfirmation(tx: TransactionResponse): Promise<string> {
+  try {
+    const receipt = await tx.wait();
+    return receipt?.hash ?? tx.hash;
+  } catch (error) {
+    // A repriced replacement sends the same call with a higher fee, so its receipt counts
+    if (isError(error, 'TRANSACTION_REPLACED') && error.reason === 'repriced' && error.receipt.status === 1) {
+      return error.receipt.hash;
+    }
+    console.error('Error waiting for transaction:', error);
+    throw toDepositPoolError(error);
+  }
+}
+
+/**
+ * Convert wagmi wallet client to ethers provider, used to sign transactions
  * @param walletClient - Wagmi wallet client
  * @returns BrowserProvider - Ethers browser provider
  */
@@ -303,60 +795,44 @@ function walletClientToProvider(walletClient: {
 /**
  * Utility function to create contract utils instance from wagmi context
  * This will be used with RainbowKit's wallet connection
+ * @param deployment - Deployment to interact with (defaults to the active deployment)
  */
-export async function createContractUtils(): Promise<SecurityDepositPoolUtils> {
+export async function createContractUtils(
+  deployment: Deployment = ACTIVE_DEPLOYMENT
+): Promise<SecurityDepositPoolUtils> {
   try {
-    const walletClient = await getWalletClient(config);
+    const config = await getAppConfig();
+    const walletClient = await getWalletClient(config, { chainId: deployment.chainId });
     if (!walletClient) {
-      throw new Error('Wallet not connected');
+      throw new DepositPoolError({ code: 'WALLET_NOT_CONNECTED' });
     }
     
     const provider = walletClientToProvider(walletClient);
     const signer = await provider.getSigner();
-    return new SecurityDepositPoolUtils(signer);
+    return new SecurityDepositPoolUtils(signer, deployment, config);
   } catch (error) {
     console.error('Error creating contract utils:', error);
-    if (error instanceof Error) {
-      if (error.message.includes('network') || error.message.includes('Network')) {
-        throw new Error('Network connection error. Please check your internet connection and try again.');
-      } else if (error.message.includes('Wallet not connected')) {
-        throw new Error('Wallet not connected. Please connect your wallet first.');
-      } else {
-        throw new Error('Failed to initialize contract connection. Please try again.');
-      }
-    }
-    throw error;
+    throw toDepositPoolError(error);
   }
 }
 
 /**
  * Create a read-only contract utils instance for checking deposit status
  * This can be used without wallet connection
+ * @param deployment - Deployment to read from (defaults to the active deployment)
+ * @param wagmiConfig - Wagmi config to read through (defaults to the app's)
+ * @param readQueryClient - Cache of the reads (defaults to the app's)
  */
-export async function createReadOnlyContractUtils(): Promise<SecurityDepositPoolUtils> {
+export async function createReadOnlyContractUtils(
+  deployment: Deployment = ACTIVE_DEPLOYMENT,
+  wagmiConfig?: Config,
+  readQueryClient?: QueryClient
+): Promise<SecurityDepositPoolUtils> {
   try {
-    const publicClient = getPublicClient(config);
-    if (!publicClient) {
-      throw new Error('Public client not available');
-    }
-    
-    // Create a read-only provider using the public client
-    const provider = new BrowserProvider(publicClient.transport, {
-      chainId: config.chains[0].id,
-      name: config.chains[0].name,
-    });
-    return new SecurityDepositPoolUtils(provider);
+    // Reads go through the wagmi public client, so no provider is needed
+    return new SecurityDepositPoolUtils(null, deployment, wagmiConfig ?? await getAppConfig(), readQueryClient);
   } catch (error) {
     console.error('Error creating read-only contract utils:', error);
-    if (error instanceof Error) {
-      if (error.message.includes('network') || error.message.includes('Network')) {
-        throw new Error('Network connection error. Please check your internet connection and try again.');
-      } else if (error.message.includes('Public client not available')) {
-        throw new Error('Unable to connect to blockchain network. Please try again.');
-      } else {
-        throw new Error('Failed to initialize read-only contract connection. Please try again.');
-      }
-    }
-    throw error;
+    throw toDepositPoolError(error);
   }
-}
\ No newline at end of file
+}
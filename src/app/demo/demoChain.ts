@@ -0,0 +1,26 @@
+import { defineChain } from 'viem';
+
+/**
+ * Demo mode (`NEXT_PUBLIC_DEMO_MODE=true`): the app runs fully offline against an
+ * in-memory pool and token (see `demoLedger`) served by a mock EIP-1193 provider
+ * (see `demoProvider`), instead of a live chain and a funded wallet.
+ */
+
+export const IS_DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+export const DEMO_CHAIN = defineChain({
+  id: 1337,
+  name: 'Demo Chain',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: {
+    default: { http: [] },
+  },
+  testnet: true,
+});
+
+export const DEMO_POOL_ADDRESS: `0x${string}` = '0x00000000000000000000000000000000000D3F05';
+export const DEMO_TOKEN_ADDRESS: `0x${string}` = '0x0000000000000000000000000000000000005d70';
+// The only account of the demo wallet
+export const DEMO_ACCOUNT: `0x${string}` = '0x000000000000000000000000000000000000de30';
+
+export const DEMO_TOKEN = { symbol: 'USDT', decimals: 6 } as const;
@@ -0,0 +1,693 @@
+import {
+  Abi,
+  AbiEvent,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  keccak256,
+  parseAbi,
+  stringToHex,
+} from 'viem';
+import { SecurityDepositPool__factory } from '../abi';
+import { DEMO_ACCOUNT, DEMO_POOL_ADDRESS, DEMO_TOKEN, DEMO_TOKEN_ADDRESS } from './demoChain';
+
+/**
+ * In-memory chain for demo mode: a SecurityDepositPool and a USDT-style token
+ * with the same rules, reverts and events as the deployed contracts.
+ *
+ * State is persisted in localStorage so reloads (and the caches other modules
+ * keep per block) stay consistent; `reset` starts over.
+ */
+
+export type DemoOutcome = 'success' | 'reject' | 'revert';
+
+export interface DemoLog {
+  address: `0x${string}`;
+  topics: `0x${string}`[];
+  data: `0x${string}`;
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+  transactionHash: `0x${string}`;
+  logIndex: number;
+}
+
+export interface DemoTransaction {
+  hash: `0x${string}`;
+  from: `0x${string}`;
+  to: `0x${string}`;
+  input: `0x${string}`;
+  value: bigint;
+  gas: bigint;
+  nonce: number;
+  // Null while pending
+  blockNumber: bigint | null;
+  status: 'success' | 'reverted' | null;
+  gasUsed: bigint;
+  logs: DemoLog[];
+}
+
+export interface DemoBlock {
+  number: bigint;
+  hash: `0x${string}`;
+  parentHash: `0x${string}`;
+  // Unix seconds
+  timestamp: bigint;
+  transactions: `0x${string}`[];
+}
+
+export interface DemoLogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+// Wallet and pool state shown in the demo panel
+export interface DemoSnapshot {
+  isConnected: boolean;
+  nextOutcome: DemoOutcome;
+  nativeBalance: bigint;
+  tokenBalance: bigint;
+  allowance: bigint;
+  hasDeposited: boolean;
+  courseFinalizedTime: bigint;
+  blockNumber: bigint;
+}
+
+interface DemoState {
+  blocks: DemoBlock[];
+  transactions: Record<string, DemoTransaction>;
+  nonces: Record<string, number>;
+  nativeBalances: Record<string, bigint>;
+  tokenBalances: Record<string, bigint>;
+  // Keyed by `${owner}:${spender}`
+  allowances: Record<string, bigint>;
+  deposits: Record<string, bigint>;
+  depositors: Record<string, boolean>;
+  courseFinalizedTime: bigint;
+  totalSlashed: bigint;
+  nextOutcome: DemoOutcome;
+  isConnected: boolean;
+}
+
+type PendingLog = Pick<DemoLog, 'address' | 'topics' | 'data'>;
+
+/**
+ * Revert of a simulated call, carrying the ABI-encoded revert data
+ */
+export class DemoRevertError extends Error {
+  readonly code = 3;
+  readonly data: `0x${string}`;
+
+  constructor(data: `0x${string}`) {
+    super('execution reverted');
+    this.name = 'DemoRevertError';
+    this.data = data;
+  }
+}
+
+/**
+ * EIP-1193 / JSON-RPC error of the demo wallet or node
+ */
+export class DemoRpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'DemoRpcError';
+    this.code = code;
+  }
+}
+
+const STORAGE_KEY = 'security-deposit:demo-ledger';
+// Other cached state of the demo pool (pending transactions, stats), dropped on reset
+const RELATED_STORAGE_PREFIX = 'security-deposit:';
+
+// Time until a submitted transaction is mined
+const BLOCK_TIME_MS = 1500;
+
+export const DEMO_BASE_FEE = BigInt(1000000000); // 1 gwei
+export const DEMO_PRIORITY_FEE = BigInt(100000000); // 0.1 gwei
+
+const INITIAL_NATIVE_BALANCE = BigInt('50000000000000000'); // 0.05 ETH
+const INITIAL_TOKEN_BALANCE = BigInt(100) * BigInt(10) ** BigInt(DEMO_TOKEN.decimals);
+const FLAT_DEPOSIT_AMOUNT = BigInt(50) * BigInt(10) ** BigInt(DEMO_TOKEN.decimals);
+const COURSE_DURATION_SECONDS = 3 * 24 * 60 * 60;
+
+const GAS_USED: Record<string, bigint> = {
+  approve: BigInt(46000),
+  deposit: BigInt(95000),
+  withdraw: BigInt(60000),
+};
+const DEFAULT_GAS_USED = BigInt(50000);
+
+const poolAbi = SecurityDepositPool__factory.abi as Abi;
+const tokenAbi = erc20Abi as Abi;
+// OpenZeppelin v5 ERC20 errors, bubbled up through SafeERC20 like on-chain
+const tokenErrorsAbi = parseAbi([
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+]);
+
+const pool = DEMO_POOL_ADDRESS.toLowerCase();
+const token = DEMO_TOKEN_ADDRESS.toLowerCase();
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+function revert(abi: Abi, errorName: string, args: readonly unknown[] = []): never {
+  throw new DemoRevertError(encodeErrorResult({ abi, errorName, args } as Parameters<typeof encodeErrorResult>[0]));
+}
+
+function encodeLog(address: string, abi: Abi, eventName: string, args: Record<string, unknown>): PendingLog {
+  const event = abi.find((item) => item.type === 'event' && item.name === eventName) as AbiEvent;
+  const topics = encodeEventTopics({ abi: [event], eventName, args } as Parameters<typeof encodeEventTopics>[0]);
+  const nonIndexed = event.inputs.filter((input) => !input.indexed);
+  const data = encodeAbiParameters(nonIndexed, nonIndexed.map((input) => args[input.name as string]));
+  return { address: address as `0x${string}`, topics: topics as `0x${string}`[], data };
+}
+
+function createBlock(number: bigint, parentHash: `0x${string}`, timestamp: bigint): DemoBlock {
+  return {
+    number,
+    hash: keccak256(stringToHex(`demo-block:${number}:${timestamp}`)),
+    parentHash,
+    timestamp,
+    transactions: [],
+  };
+}
+
+function createInitialState(): DemoState {
+  const account = DEMO_ACCOUNT.toLowerCase();
+  const timestamp = nowSeconds();
+  return {
+    blocks: [createBlock(BigInt(0), `0x${'0'.repeat(64)}`, timestamp)],
+    transactions: {},
+    nonces: {},
+    nativeBalances: { [account]: INITIAL_NATIVE_BALANCE },
+    tokenBalances: { [account]: INITIAL_TOKEN_BALANCE },
+    allowances: {},
+    deposits: {},
+    depositors: {},
+    courseFinalizedTime: timestamp + BigInt(COURSE_DURATION_SECONDS),
+    totalSlashed: BigInt(0),
+    nextOutcome: 'success',
+    isConnected: false,
+  };
+}
+
+function serialize(state: DemoState): string {
+  return JSON.stringify(state, (_key, value) => (typeof value === 'bigint' ? { $bigint: value.toString() } : value));
+}
+
+function deserialize(json: string): DemoState {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+  );
+}
+
+// Token rules, shared by direct token calls and the pool's transfers
+
+function balanceOf(state: DemoState, address: string): bigint {
+  return state.tokenBalances[address.toLowerCase()] ?? BigInt(0);
+}
+
+function allowanceOf(state: DemoState, owner: string, spender: string): bigint {
+  return state.allowances[`${owner.toLowerCase()}:${spender.toLowerCase()}`] ?? BigInt(0);
+}
+
+function approve(state: DemoState, owner: string, spender: string, amount: bigint, logs: PendingLog[]): void {
+  // USDT rejects changing a non-zero allowance to another non-zero value
+  if (amount !== BigInt(0) && allowanceOf(state, owner, spender) !== BigInt(0)) {
+    throw new DemoRevertError('0x');
+  }
+  state.allowances[`${owner.toLowerCase()}:${spender.toLowerCase()}`] = amount;
+  logs.push(encodeLog(token, tokenAbi, 'Approval', { owner, spender, value: amount }));
+}
+
+function transfer(state: DemoState, from: string, to: string, amount: bigint, logs: PendingLog[]): void {
+  const balance = balanceOf(state, from);
+  if (balance < amount) {
+    revert(tokenErrorsAbi, 'ERC20InsufficientBalance', [from, balance, amount]);
+  }
+  state.tokenBalances[from.toLowerCase()] = balance - amount;
+  state.tokenBalances[to.toLowerCase()] = balanceOf(state, to) + amount;
+  logs.push(encodeLog(token, tokenAbi, 'Transfer', { from, to, value: amount }));
+}
+
+function transferFrom(state: DemoState, spender: string, from: string, to: string, amount: bigint, logs: PendingLog[]): void {
+  const allowance = allowanceOf(state, from, spender);
+  if (allowance < amount) {
+    revert(tokenErrorsAbi, 'ERC20InsufficientAllowance', [spender, allowance, amount]);
+  }
+  // Spending an allowance does not emit Approval (OpenZeppelin v5)
+  state.allowances[`${from.toLowerCase()}:${spender.toLowerCase()}`] = allowance - amount;
+  transfer(state, from, to, amount, logs);
+}
+
+function executeToken(state: DemoState, from: string, data: `0x${string}`, logs: PendingLog[]): `0x${string}` {
+  const { functionName, args = [] } = decodeFunctionData({ abi: tokenAbi, data });
+  const result = (value: unknown) =>
+    encodeFunctionResult({ abi: tokenAbi, functionName, result: value } as Parameters<typeof encodeFunctionResult>[0]);
+
+  switch (functionName) {
+    case 'name':
+      return result('Tether USD (demo)');
+    case 'symbol':
+      return result(DEMO_TOKEN.symbol);
+    case 'decimals':
+      return result(DEMO_TOKEN.decimals);
+    case 'totalSupply':
+      return result(Object.values(state.tokenBalances).reduce((sum, balance) => sum + balance, BigInt(0)));
+    case 'balanceOf':
+      return result(balanceOf(state, args[0] as string));
+    case 'allowance':
+      return result(allowanceOf(state, args[0] as string, args[1] as string));
+    case 'approve':
+      approve(state, from, args[0] as string, args[1] as bigint, logs);
+      return result(true);
+    case 'transfer':
+      transfer(state, from, args[0] as string, args[1] as bigint, logs);
+      return result(true);
+    case 'transferFrom':
+      transferFrom(state, from, args[0] as string, args[1] as string, args[2] as bigint, logs);
+      return result(true);
+    default:
+      throw new DemoRevertError('0x');
+  }
+}
+
+function executePool(
+  state: DemoState,
+  from: string,
+  data: `0x${string}`,
+  timestamp: bigint,
+  logs: PendingLog[]
+): `0x${string}` {
+  const { functionName, args = [] } = decodeFunctionData({ abi: poolAbi, data });
+  const result = (value: unknown) =>
+    encodeFunctionResult({ abi: poolAbi, functionName, result: value } as Parameters<typeof encodeFunctionResult>[0]);
+  const student = from.toLowerCase();
+
+  switch (functionName) {
+    case 'hasDeposited':
+      return result(state.depositors[(args[0] as string).toLowerCase()] ?? false);
+    case 'deposits':
+      return result(state.deposits[(args[0] as string).toLowerCase()] ?? BigInt(0));
+    case 'flatDepositAmount':
+      return result(FLAT_DEPOSIT_AMOUNT);
+    case 'courseFinalizedTime':
+      return result(state.courseFinalizedTime);
+    case 'totalSlashed':
+      return result(state.totalSlashed);
+    case 'isTotalSlashedTransferred':
+      return result(false);
+    case 'usdt':
+      return result(DEMO_TOKEN_ADDRESS);
+    case 'owner':
+    case 'fundsManager':
+    case 'backupFundsManager':
+      return result(DEMO_POOL_ADDRESS);
+    case 'deposit':
+      if (state.depositors[student]) {
+        revert(poolAbi, 'AlreadyDeposited');
+      }
+      if (timestamp >= state.courseFinalizedTime) {
+        revert(poolAbi, 'CourseFinalized');
+      }
+      transferFrom(state, pool, from, pool, FLAT_DEPOSIT_AMOUNT, logs);
+      state.depositors[student] = true;
+      state.deposits[student] = FLAT_DEPOSIT_AMOUNT;
+      logs.push(encodeLog(pool, poolAbi, 'Deposited', { student: from, amount: FLAT_DEPOSIT_AMOUNT }));
+      return result(undefined);
+    case 'withdraw': {
+      if (!state.depositors[student]) {
+        revert(poolAbi, 'HasNotDeposited');
+      }
+      if (timestamp < state.courseFinalizedTime) {
+        revert(poolAbi, 'CourseNotFinalized');
+      }
+      const remaining = state.deposits[student] ?? BigInt(0);
+      if (remaining === BigInt(0)) {
+        revert(poolAbi, 'NoRemainingDeposit');
+      }
+      state.deposits[student] = BigInt(0);
+      transfer(state, pool, from, remaining, logs);
+      logs.push(encodeLog(pool, poolAbi, 'Withdrawn', { student: from }));
+      return result(undefined);
+    }
+    default:
+      // Organizer functions: the demo wallet is not the owner
+      return revert(poolAbi, 'OwnableUnauthorizedAccount', [from]);
+  }
+}
+
+/**
+ * Run a call against the given state, mutating it
+ * @throws DemoRevertError if the call reverts
+ */
+function execute(state: DemoState, from: string, to: string, data: `0x${string}`, timestamp: bigint, logs: PendingLog[]): `0x${string}` {
+  const target = to.toLowerCase();
+  if (target === pool) {
+    return executePool(state, from, data, timestamp, logs);
+  }
+  if (target === token) {
+    return executeToken(state, from, data, logs);
+  }
+  // Plain transfers and calls to accounts without code
+  return '0x';
+}
+
+function getFunctionName(to: string, data: `0x${string}`): string | null {
+  try {
+    const abi = to.toLowerCase() === pool ? poolAbi : to.toLowerCase() === token ? tokenAbi : null;
+    return abi ? decodeFunctionData({ abi, data }).functionName : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesTopic(filter: string | string[] | null | undefined, topic: string | undefined): boolean {
+  if (filter === null || filter === undefined) {
+    return true;
+  }
+  if (topic === undefined) {
+    return false;
+  }
+  const candidates = Array.isArray(filter) ? filter : [filter];
+  return candidates.some((candidate) => candidate.toLowerCase() === topic.toLowerCase());
+}
+
+export class DemoLedger {
+  private state: DemoState;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.state = this.load() ?? createInitialState();
+    // Transactions still pending when the page was left are mined right away
+    for (const transaction of Object.values(this.state.transactions)) {
+      if (transaction.blockNumber === null) {
+        setTimeout(() => this.mine(transaction.hash), 0);
+      }
+    }
+  }
+
+  private load(): DemoState | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      return stored ? deserialize(stored) : null;
+    } catch (error) {
+      console.error('Error loading demo ledger:', error);
+      return null;
+    }
+  }
+
+  private commit(): void {
+    if (typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(STORAGE_KEY, serialize(this.state));
+      } catch (error) {
+        console.error('Error saving demo ledger:', error);
+      }
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private appendBlock(): DemoBlock {
+    const parent = this.latestBlock;
+    const now = nowSeconds();
+    const block = createBlock(parent.number + BigInt(1), parent.hash, now > parent.timestamp ? now : parent.timestamp + BigInt(1));
+    this.state.blocks.push(block);
+    return block;
+  }
+
+  private mine(hash: `0x${string}`): void {
+    const transaction = this.state.transactions[hash];
+    if (!transaction || transaction.blockNumber !== null) {
+      return;
+    }
+
+    const block = this.appendBlock();
+    const forcedRevert = this.state.nextOutcome === 'revert';
+    if (forcedRevert) {
+      this.state.nextOutcome = 'success';
+    }
+
+    // Execute on a copy so a revert leaves no trace
+    const draft = structuredClone(this.state);
+    const logs: PendingLog[] = [];
+    let status: DemoTransaction['status'] = 'success';
+    try {
+      if (forcedRevert) {
+        throw new DemoRevertError('0x');
+      }
+      execute(draft, transaction.from, transaction.to, transaction.input, block.timestamp, logs);
+      this.state = draft;
+    } catch (error) {
+      if (!(error instanceof DemoRevertError)) {
+        throw error;
+      }
+      status = 'reverted';
+    }
+
+    const minedBlock = this.latestBlock;
+    const from = transaction.from.toLowerCase();
+    const fee = transaction.gasUsed * (DEMO_BASE_FEE + DEMO_PRIORITY_FEE);
+    this.state.nativeBalances[from] = (this.state.nativeBalances[from] ?? BigInt(0)) - fee;
+    minedBlock.transactions.push(hash);
+    this.state.transactions[hash] = {
+      ...transaction,
+      blockNumber: minedBlock.number,
+      status,
+      logs: status === 'success'
+        ? logs.map((log, index) => ({
+          ...log,
+          blockNumber: minedBlock.number,
+          blockHash: minedBlock.hash,
+          transactionHash: hash,
+          logIndex: index,
+        }))
+        : [],
+    };
+    this.commit();
+  }
+
+  get latestBlock(): DemoBlock {
+    return this.state.blocks[this.state.blocks.length - 1];
+  }
+
+  getBlock(number: bigint): DemoBlock | null {
+    return this.state.blocks.find((block) => block.number === number) ?? null;
+  }
+
+  getBlockByHash(hash: string): DemoBlock | null {
+    return this.state.blocks.find((block) => block.hash === hash.toLowerCase()) ?? null;
+  }
+
+  getTransaction(hash: string): DemoTransaction | null {
+    return this.state.transactions[hash.toLowerCase()] ?? null;
+  }
+
+  getLogs(filter: DemoLogFilter): DemoLog[] {
+    const addresses = filter.address === undefined
+      ? null
+      : (Array.isArray(filter.address) ? filter.address : [filter.address]).map((item) => item.toLowerCase());
+
+    return this.state.blocks
+      .filter((block) => block.number >= filter.fromBlock && block.number <= filter.toBlock)
+      .flatMap((block) => block.transactions.flatMap((hash) => this.state.transactions[hash].logs))
+      .filter((log) =>
+        (!addresses || addresses.includes(log.address.toLowerCase())) &&
+        (filter.topics ?? []).every((topicFilter, index) => matchesTopic(topicFilter, log.topics[index]))
+      );
+  }
+
+  getNativeBalance(address: string): bigint {
+    return this.state.nativeBalances[address.toLowerCase()] ?? BigInt(0);
+  }
+
+  getNonce(address: string): number {
+    return this.state.nonces[address.toLowerCase()] ?? 0;
+  }
+
+  hasCode(address: string): boolean {
+    return address.toLowerCase() === pool || address.toLowerCase() === token;
+  }
+
+  get isConnected(): boolean {
+    return this.state.isConnected;
+  }
+
+  setConnected(isConnected: boolean): void {
+    this.state.isConnected = isConnected;
+    this.commit();
+  }
+
+  /**
+   * Simulate a call against the latest state without changing it
+   * @throws DemoRevertError if the call reverts
+   */
+  call(from: string, to: string, data: `0x${string}`): `0x${string}` {
+    return execute(structuredClone(this.state), from, to, data, nowSeconds(), []);
+  }
+
+  /**
+   * Gas a transaction would use
+   * @throws DemoRevertError if the transaction would revert
+   */
+  estimateGas(from: string, to: string, data: `0x${string}`): bigint {
+    this.call(from, to, data);
+    return GAS_USED[getFunctionName(to, data) ?? ''] ?? DEFAULT_GAS_USED;
+  }
+
+  /**
+   * Submit a transaction from the demo wallet; it is mined after a short delay
+   * @returns Transaction hash
+   * @throws DemoRpcError if the wallet rejects it or cannot pay for gas
+   */
+  sendTransaction(from: string, to: string, data: `0x${string}`, value: bigint, gas: bigint | null): `0x${string}` {
+    if (this.state.nextOutcome === 'reject') {
+      this.state.nextOutcome = 'success';
+      this.commit();
+      throw new DemoRpcError(4001, 'User rejected the request.');
+    }
+
+    const gasUsed = GAS_USED[getFunctionName(to, data) ?? ''] ?? DEFAULT_GAS_USED;
+    const gasLimit = gas ?? gasUsed;
+    if (this.getNativeBalance(from) < gasLimit * (DEMO_BASE_FEE + DEMO_PRIORITY_FEE) + value) {
+      throw new DemoRpcError(-32000, 'insufficient funds for gas * price + value');
+    }
+
+    const account = from.toLowerCase();
+    const nonce = this.getNonce(account);
+    this.state.nonces[account] = nonce + 1;
+    const hash = keccak256(stringToHex(`demo-tx:${account}:${nonce}:${Date.now()}:${Math.random()}`));
+    this.state.transactions[hash] = {
+      hash,
+      from: from as `0x${string}`,
+      to: to as `0x${string}`,
+      input: data,
+      value,
+      gas: gasLimit,
+      nonce,
+      blockNumber: null,
+      status: null,
+      gasUsed,
+      logs: [],
+    };
+    this.commit();
+    setTimeout(() => this.mine(hash), BLOCK_TIME_MS);
+    return hash;
+  }
+
+  // Controls of the demo panel
+
+  getSnapshot(): DemoSnapshot {
+    const account = DEMO_ACCOUNT.toLowerCase();
+    return {
+      isConnected: this.state.isConnected,
+      nextOutcome: this.state.nextOutcome,
+      nativeBalance: this.getNativeBalance(account),
+      tokenBalance: balanceOf(this.state, account),
+      allowance: allowanceOf(this.state, account, pool),
+      hasDeposited: this.state.depositors[account] ?? false,
+      courseFinalizedTime: this.state.courseFinalizedTime,
+      blockNumber: this.latestBlock.number,
+    };
+  }
+
+  /**
+   * Make the next transaction get rejected in the wallet or revert on-chain
+   */
+  setNextOutcome(outcome: DemoOutcome): void {
+    this.state.nextOutcome = outcome;
+    this.commit();
+  }
+
+  /**
+   * Move the course finalization time to now, so refunds open
+   */
+  finalizeCourse(): void {
+    this.appendBlock();
+    this.state.courseFinalizedTime = this.latestBlock.timestamp;
+    this.commit();
+  }
+
+  /**
+   * Leave a partial allowance behind, as an earlier approval that was never spent would
+   */
+  setPartialAllowance(): void {
+    const block = this.appendBlock();
+    const hash = keccak256(stringToHex(`demo-allowance:${block.number}`));
+    const amount = FLAT_DEPOSIT_AMOUNT / BigInt(5);
+    this.state.allowances[`${DEMO_ACCOUNT.toLowerCase()}:${pool}`] = amount;
+    const log = encodeLog(token, tokenAbi, 'Approval', { owner: DEMO_ACCOUNT, spender: DEMO_POOL_ADDRESS, value: amount });
+    block.transactions.push(hash);
+    this.state.transactions[hash] = {
+      hash,
+      from: DEMO_ACCOUNT,
+      to: DEMO_TOKEN_ADDRESS,
+      input: '0x',
+      value: BigInt(0),
+      gas: GAS_USED.approve,
+      nonce: 0,
+      blockNumber: block.number,
+      status: 'success',
+      gasUsed: GAS_USED.approve,
+      logs: [{ ...log, blockNumber: block.number, blockHash: block.hash, transactionHash: hash, logIndex: 0 }],
+    };
+    this.commit();
+  }
+
+  /**
+   * Toggle the wallet's native balance between empty and funded, to show blocked fees
+   */
+  toggleNativeBalance(): void {
+    const account = DEMO_ACCOUNT.toLowerCase();
+    this.state.nativeBalances[account] = this.getNativeBalance(account) > BigInt(0) ? BigInt(0) : INITIAL_NATIVE_BALANCE;
+    this.commit();
+  }
+
+  /**
+   * Start over with a fresh pool and wallet
+   */
+  reset(): void {
+    if (typeof window !== 'undefined') {
+      try {
+        const relatedKeys = Object.keys(window.localStorage).filter(
+          (key) => key.startsWith(RELATED_STORAGE_PREFIX) && key.toLowerCase().includes(pool)
+        );
+        relatedKeys.forEach((key) => window.localStorage.removeItem(key));
+      } catch (error) {
+        console.error('Error clearing demo storage:', error);
+      }
+    }
+    const isConnected = this.state.isConnected;
+    this.state = { ...createInitialState(), isConnected };
+    this.commit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+let demoLedger: DemoLedger | null = null;
+
+/**
+ * Ledger shared by the demo provider and the demo panel, created on first use
+ */
+export function getDemoLedger(): DemoLedger {
+  if (!demoLedger) {
+    demoLedger = new DemoLedger();
+  }
+  return demoLedger;
+}
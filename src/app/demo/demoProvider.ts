@@ -0,0 +1,299 @@
+import { toHex } from 'viem';
+import { DEMO_ACCOUNT, DEMO_CHAIN } from './demoChain';
+import {
+  DEMO_BASE_FEE,
+  DEMO_PRIORITY_FEE,
+  DemoBlock,
+  DemoLedger,
+  DemoLog,
+  DemoRpcError,
+  DemoTransaction,
+  getDemoLedger,
+} from './demoLedger';
+
+/**
+ * EIP-1193 provider of demo mode. It plays both the wallet (accounts, signing
+ * transactions, rejections) and the node (reads, receipts, logs), answering every
+ * request from the in-memory ledger, so wagmi, viem and ethers run unchanged.
+ */
+
+type Listener = (...args: unknown[]) => void;
+
+interface RpcTransaction {
+  from?: string;
+  to?: string;
+  data?: `0x${string}`;
+  input?: `0x${string}`;
+  value?: string;
+  gas?: string;
+}
+
+interface RpcLogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+  fromBlock?: string;
+  toBlock?: string;
+  blockHash?: string;
+}
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const EMPTY_BLOOM = `0x${'0'.repeat(512)}`;
+const BLOCK_GAS_LIMIT = BigInt(30000000);
+// Placeholder signature, only has to be well-formed for ethers to parse it
+const SIGNATURE_R = `0x${'1'.repeat(64)}`;
+const SIGNATURE_S = `0x${'2'.repeat(64)}`;
+
+function formatLog(log: DemoLog, transactionIndex: number) {
+  return {
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: toHex(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: toHex(transactionIndex),
+    logIndex: toHex(log.logIndex),
+    removed: false,
+  };
+}
+
+export class DemoProvider {
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(private readonly ledger: DemoLedger) {}
+
+  on(event: string, listener: Listener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  removeListener(event: string, listener: Listener): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  private emit(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+
+  private get accounts(): `0x${string}`[] {
+    return this.ledger.isConnected ? [DEMO_ACCOUNT] : [];
+  }
+
+  private connect(): `0x${string}`[] {
+    if (!this.ledger.isConnected) {
+      this.ledger.setConnected(true);
+      this.emit('connect', { chainId: toHex(DEMO_CHAIN.id) });
+      this.emit('accountsChanged', this.accounts);
+    }
+    return this.accounts;
+  }
+
+  private resolveBlockNumber(tag: string | undefined): bigint {
+    if (tag === undefined || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return this.ledger.latestBlock.number;
+    }
+    if (tag === 'earliest') {
+      return BigInt(0);
+    }
+    return BigInt(tag);
+  }
+
+  private formatTransaction(transaction: DemoTransaction) {
+    const block = transaction.blockNumber === null ? null : this.ledger.getBlock(transaction.blockNumber);
+    return {
+      hash: transaction.hash,
+      type: '0x2',
+      chainId: toHex(DEMO_CHAIN.id),
+      from: transaction.from,
+      to: transaction.to,
+      input: transaction.input,
+      value: toHex(transaction.value),
+      gas: toHex(transaction.gas),
+      nonce: toHex(transaction.nonce),
+      maxFeePerGas: toHex(DEMO_BASE_FEE * BigInt(2) + DEMO_PRIORITY_FEE),
+      maxPriorityFeePerGas: toHex(DEMO_PRIORITY_FEE),
+      gasPrice: toHex(DEMO_BASE_FEE + DEMO_PRIORITY_FEE),
+      accessList: [],
+      blockHash: block?.hash ?? null,
+      blockNumber: block ? toHex(block.number) : null,
+      transactionIndex: block ? toHex(block.transactions.indexOf(transaction.hash)) : null,
+      r: SIGNATURE_R,
+      s: SIGNATURE_S,
+      v: '0x0',
+      yParity: '0x0',
+    };
+  }
+
+  private formatReceipt(transaction: DemoTransaction) {
+    const block = transaction.blockNumber === null ? null : this.ledger.getBlock(transaction.blockNumber);
+    if (!block) {
+      return null;
+    }
+    const transactionIndex = block.transactions.indexOf(transaction.hash);
+    return {
+      transactionHash: transaction.hash,
+      transactionIndex: toHex(transactionIndex),
+      blockHash: block.hash,
+      blockNumber: toHex(block.number),
+      from: transaction.from,
+      to: transaction.to,
+      type: '0x2',
+      status: transaction.status === 'success' ? '0x1' : '0x0',
+      gasUsed: toHex(transaction.gasUsed),
+      cumulativeGasUsed: toHex(transaction.gasUsed),
+      effectiveGasPrice: toHex(DEMO_BASE_FEE + DEMO_PRIORITY_FEE),
+      contractAddress: null,
+      logs: transaction.logs.map((log) => formatLog(log, transactionIndex)),
+      logsBloom: EMPTY_BLOOM,
+    };
+  }
+
+  private formatBlock(block: DemoBlock, includeTransactions: boolean) {
+    const transactions = block.transactions
+      .map((hash) => this.ledger.getTransaction(hash))
+      .filter((transaction): transaction is DemoTransaction => transaction !== null);
+    return {
+      number: toHex(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toHex(block.timestamp),
+      nonce: '0x0000000000000000',
+      mixHash: ZERO_HASH,
+      sha3Uncles: ZERO_HASH,
+      logsBloom: EMPTY_BLOOM,
+      transactionsRoot: ZERO_HASH,
+      stateRoot: ZERO_HASH,
+      receiptsRoot: ZERO_HASH,
+      miner: '0x0000000000000000000000000000000000000000',
+      difficulty: '0x0',
+      totalDifficulty: '0x0',
+      extraData: '0x',
+      size: '0x0',
+      gasLimit: toHex(BLOCK_GAS_LIMIT),
+      gasUsed: toHex(transactions.reduce((sum, transaction) => sum + transaction.gasUsed, BigInt(0))),
+      baseFeePerGas: toHex(DEMO_BASE_FEE),
+      transactions: includeTransactions
+        ? transactions.map((transaction) => this.formatTransaction(transaction))
+        : block.transactions,
+      uncles: [],
+    };
+  }
+
+  async request({ method, params = [] }: { method: string; params?: unknown[] | object }): Promise<unknown> {
+    const args = Array.isArray(params) ? params : [params];
+
+    switch (method) {
+      // Wallet
+      case 'eth_chainId':
+        return toHex(DEMO_CHAIN.id);
+      case 'net_version':
+        return String(DEMO_CHAIN.id);
+      case 'eth_accounts':
+        return this.accounts;
+      case 'eth_requestAccounts':
+        return this.connect();
+      case 'wallet_requestPermissions':
+        this.connect();
+        return [{ parentCapability: 'eth_accounts' }];
+      case 'wallet_revokePermissions':
+        if (this.ledger.isConnected) {
+          this.ledger.setConnected(false);
+          this.emit('accountsChanged', []);
+        }
+        return null;
+      case 'wallet_switchEthereumChain': {
+        const { chainId } = args[0] as { chainId: string };
+        if (Number(chainId) !== DEMO_CHAIN.id) {
+          throw new DemoRpcError(4902, `Chain ${chainId} is not available in demo mode.`);
+        }
+        return null;
+      }
+      case 'eth_sendTransaction': {
+        const transaction = args[0] as RpcTransaction;
+        if (!this.ledger.isConnected || transaction.from?.toLowerCase() !== DEMO_ACCOUNT.toLowerCase()) {
+          throw new DemoRpcError(4100, 'The requested account has not been authorized.');
+        }
+        return this.ledger.sendTransaction(
+          transaction.from,
+          transaction.to ?? '0x',
+          transaction.data ?? transaction.input ?? '0x',
+          BigInt(transaction.value ?? 0),
+          transaction.gas ? BigInt(transaction.gas) : null
+        );
+      }
+
+      // Node
+      case 'eth_blockNumber':
+        return toHex(this.ledger.latestBlock.number);
+      case 'eth_getBlockByNumber': {
+        const block = this.ledger.getBlock(this.resolveBlockNumber(args[0] as string));
+        return block ? this.formatBlock(block, Boolean(args[1])) : null;
+      }
+      case 'eth_getBlockByHash': {
+        const block = this.ledger.getBlockByHash(args[0] as string);
+        return block ? this.formatBlock(block, Boolean(args[1])) : null;
+      }
+      case 'eth_call': {
+        const call = args[0] as RpcTransaction;
+        return this.ledger.call(call.from ?? DEMO_ACCOUNT, call.to ?? '0x', call.data ?? call.input ?? '0x');
+      }
+      case 'eth_estimateGas': {
+        const call = args[0] as RpcTransaction;
+        return toHex(this.ledger.estimateGas(call.from ?? DEMO_ACCOUNT, call.to ?? '0x', call.data ?? call.input ?? '0x'));
+      }
+      case 'eth_gasPrice':
+        return toHex(DEMO_BASE_FEE + DEMO_PRIORITY_FEE);
+      case 'eth_maxPriorityFeePerGas':
+        return toHex(DEMO_PRIORITY_FEE);
+      case 'eth_getBalance':
+        return toHex(this.ledger.getNativeBalance(args[0] as string));
+      case 'eth_getCode':
+        // Any non-empty code; only its presence is checked
+        return this.ledger.hasCode(args[0] as string) ? '0x6080604052' : '0x';
+      case 'eth_getTransactionCount':
+        return toHex(this.ledger.getNonce(args[0] as string));
+      case 'eth_getTransactionByHash': {
+        const transaction = this.ledger.getTransaction(args[0] as string);
+        return transaction ? this.formatTransaction(transaction) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const transaction = this.ledger.getTransaction(args[0] as string);
+        return transaction ? this.formatReceipt(transaction) : null;
+      }
+      case 'eth_getLogs': {
+        const filter = args[0] as RpcLogFilter;
+        const block = filter.blockHash ? this.ledger.getBlockByHash(filter.blockHash) : null;
+        const logs = this.ledger.getLogs({
+          address: filter.address,
+          topics: filter.topics,
+          fromBlock: block ? block.number : this.resolveBlockNumber(filter.fromBlock),
+          toBlock: block ? block.number : this.resolveBlockNumber(filter.toBlock),
+        });
+        return logs.map((log) => {
+          const transactionIndex = this.ledger.getBlock(log.blockNumber)?.transactions.indexOf(log.transactionHash) ?? 0;
+          return formatLog(log, transactionIndex);
+        });
+      }
+
+      default:
+        // Filters, subscriptions, message signing and wallet capabilities
+        throw new DemoRpcError(4200, `${method} is not supported in demo mode.`);
+    }
+  }
+}
+
+let demoProvider: DemoProvider | null = null;
+
+/**
+ * Provider of demo mode, created on first use along with the ledger
+ */
+export function getDemoProvider(): DemoProvider {
+  if (!demoProvider) {
+    demoProvider = new DemoProvider(getDemoLedger());
+  }
+  return demoProvider;
+}
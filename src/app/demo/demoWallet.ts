@@ -0,0 +1,33 @@
+import type { Wallet } from '@rainbow-me/rainbowkit';
+import type { EIP1193Provider } from 'viem';
+import { createConnector, injected } from 'wagmi';
+import { lazyDemoProvider } from './lazyDemoProvider';
+
+const DEMO_WALLET_ICON =
+  'data:image/svg+xml;utf8,' +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28"><rect width="28" height="28" rx="6" fill="#3B82F6"/>' +
+    '<text x="14" y="19" font-family="sans-serif" font-size="12" font-weight="700" fill="#fff" text-anchor="middle">D</text></svg>'
+  );
+
+/**
+ * RainbowKit wallet of demo mode, connected to the mock provider
+ */
+export const demoWallet = (): Wallet => ({
+  id: 'demo',
+  name: 'Demo Wallet',
+  iconUrl: DEMO_WALLET_ICON,
+  iconBackground: '#3B82F6',
+  installed: true,
+  createConnector: (walletDetails) =>
+    createConnector((config) => ({
+      ...injected({
+        target: {
+          id: 'demo',
+          name: 'Demo Wallet',
+          provider: lazyDemoProvider as unknown as EIP1193Provider,
+        },
+      })(config),
+      ...walletDetails,
+    })),
+});
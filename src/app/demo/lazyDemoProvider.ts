@@ -0,0 +1,35 @@
+import type { DemoProvider } from './demoProvider';
+
+/**
+ * Stand-in for the demo provider that the app config can reference up front. The
+ * demo ledger and provider are only imported on the first request, so they stay in
+ * a separate chunk that is never fetched outside of demo mode.
+ */
+
+type Listener = (...args: unknown[]) => void;
+
+let demoProviderPromise: Promise<DemoProvider> | null = null;
+
+function loadDemoProvider(): Promise<DemoProvider> {
+  if (!demoProviderPromise) {
+    demoProviderPromise = import('./demoProvider').then((module) => module.getDemoProvider());
+  }
+  return demoProviderPromise;
+}
+
+export const lazyDemoProvider = {
+  async request(args: { method: string; params?: unknown[] | object }): Promise<unknown> {
+    return (await loadDemoProvider()).request(args);
+  },
+
+  // Listeners are attached once the provider has loaded, which happens before any request is answered
+  on(event: string, listener: Listener) {
+    void loadDemoProvider().then((provider) => provider.on(event, listener));
+    return lazyDemoProvider;
+  },
+
+  removeListener(event: string, listener: Listener) {
+    void loadDemoProvider().then((provider) => provider.removeListener(event, listener));
+    return lazyDemoProvider;
+  },
+};
@@ -0,0 +1,96 @@
+import type { Chain } from 'viem';
+import { mainnet } from 'wagmi/chains';
+import type { AllowlistConfig } from './allowlist';
+import { RUNTIME_CONFIG, SUPPORTED_CHAINS } from './configSchema';
+
+/**
+ * Registry of every SecurityDepositPool deployment (one per cohort and chain).
+ *
+ * Deployments are read from `NEXT_PUBLIC_DEPLOYMENTS`, a JSON array of
+ * `{ id, cohort, chainId, poolAddress, tokenAddress, startBlock, courseStartTime?, allowlistUrl?, allowlistRoot? }`.
+ * When it is not set, a single deployment is built from the legacy
+ * `NEXT_PUBLIC_CHAIN_ID`, `NEXT_PUBLIC_SECURITY_DEPOSIT_POOL_ADDRESS` and
+ * `NEXT_PUBLIC_USDT_ADDRESS` variables. In demo mode the registry is the single
+ * simulated pool and none of these variables are needed. Validation lives in
+ * `configSchema`.
+ */
+
+export interface Deployment {
+  // Stable identifier, e.g. "cohort-3-base"
+  id: string;
+  // Human readable cohort label
+  cohort: string;
+  chainId: number;
+  poolAddress: `0x${string}`;
+  // ERC-20 token the pool takes deposits in
+  tokenAddress: `0x${string}`;
+  // Block the pool was deployed at, used as the lower bound for event scans
+  startBlock: bigint;
+  // Optional course start (unix seconds); the pool only stores the finalization time
+  courseStartTime: number | null;
+  // Enrolled wallets; when set, only they are offered the deposit buttons
+  allowlist: AllowlistConfig | null;
+}
+
+export const DEPLOYMENTS: readonly Deployment[] = RUNTIME_CONFIG.deployments;
+
+// Stand-in while the configuration is invalid, so modules load; the diagnostics screen is shown instead of the app
+const UNCONFIGURED_DEPLOYMENT: Deployment = {
+  id: 'unconfigured',
+  cohort: '',
+  chainId: mainnet.id,
+  poolAddress: '0x0000000000000000000000000000000000000000',
+  tokenAddress: '0x0000000000000000000000000000000000000000',
+  startBlock: BigInt(0),
+  courseStartTime: null,
+  allowlist: null,
+};
+
+// Deployment served at `/`: `NEXT_PUBLIC_ACTIVE_DEPLOYMENT` or the first entry
+export const ACTIVE_DEPLOYMENT: Deployment =
+  DEPLOYMENTS.find((item) => item.id === RUNTIME_CONFIG.activeDeploymentId) ?? DEPLOYMENTS[0] ?? UNCONFIGURED_DEPLOYMENT;
+
+/**
+ * Chains used by any deployment, with the active deployment's chain first
+ */
+export function getDeploymentChains(): [Chain, ...Chain[]] {
+  const chainIds = [ACTIVE_DEPLOYMENT.chainId, ...DEPLOYMENTS.map((item) => item.chainId)];
+  const uniqueChainIds = chainIds.filter((chainId, index) => chainIds.indexOf(chainId) === index);
+  const [first, ...rest] = uniqueChainIds.map((chainId) => SUPPORTED_CHAINS[chainId]);
+  return [first, ...rest];
+}
+
+export function getDeploymentChain(deployment: Deployment): Chain {
+  return SUPPORTED_CHAINS[deployment.chainId];
+}
+
+/**
+ * Find a deployment by chain and pool address
+ */
+export function findDeployment(chainId: number, poolAddress: string): Deployment | undefined {
+  return DEPLOYMENTS.find(
+    (item) => item.chainId === chainId && item.poolAddress.toLowerCase() === poolAddress.toLowerCase()
+  );
+}
+
+/**
+ * Route of a deployment's pool page
+ */
+export function getPoolPath(deployment: Deployment): string {
+  return `/pool/${deployment.chainId}/${deployment.poolAddress}`;
+}
+
+/**
+ * Route of a deployment's statistics page
+ */
+export function getPoolStatsPath(deployment: Deployment): string {
+  return `${getPoolPath(deployment)}/stats`;
+}
+
+/**
+ * Block explorer link of a transaction, if the chain has an explorer
+ */
+export function getTransactionExplorerUrl(chainId: number, transactionHash: string): string | null {
+  const explorer = SUPPORTED_CHAINS[chainId]?.blockExplorers?.default;
+  return explorer ? `${explorer.url}/tx/${transactionHash}` : null;
+}
@@ -0,0 +1,316 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DepositFlowEvent,
+  depositFlowReducer,
+  DepositFlowState,
+  initialDepositFlowState,
+  selectApprovalStatus,
+  selectDepositStatus,
+  selectHasDeposited,
+  selectWithdrawStatus,
+} from './depositFlow';
+
+const ADDRESS = '0x000000000000000000000000000000000000dEaD';
+const OTHER_ADDRESS = '0x000000000000000000000000000000000000bEEF';
+
+// Apply events one after another, starting from the disconnected state
+function run(...events: DepositFlowEvent[]): DepositFlowState {
+  return events.reduce(depositFlowReducer, initialDepositFlowState);
+}
+
+const connected: DepositFlowEvent = { type: 'WALLET_CONNECTED', address: ADDRESS, isCorrectNetwork: true };
+const notDeposited: DepositFlowEvent = {
+  type: 'STATUS_LOADED',
+  address: ADDRESS,
+  hasDeposited: false,
+  isApproved: false,
+  allowanceToReset: null,
+};
+const approvedStatus: DepositFlowEvent = { ...notDeposited, isApproved: true };
+const depositedStatus: DepositFlowEvent = {
+  type: 'STATUS_LOADED',
+  address: ADDRESS,
+  hasDeposited: true,
+  remainingDeposit: BigInt(50),
+};
+
+describe('depositFlowReducer', () => {
+  describe('connection', () => {
+    it('starts disconnected', () => {
+      expect(initialDepositFlowState.step).toEqual({ name: 'disconnected' });
+      expect(selectHasDeposited(initialDepositFlowState.step)).toBeNull();
+    });
+
+    it('asks for a network switch on the wrong network', () => {
+      const state = run({ type: 'WALLET_CONNECTED', address: ADDRESS, isCorrectNetwork: false });
+      expect(state.step).toEqual({ name: 'wrong-network' });
+      expect(state.address).toBe(ADDRESS);
+    });
+
+    it('checks the status once on the right network', () => {
+      const state = run(
+        { type: 'WALLET_CONNECTED', address: ADDRESS, isCorrectNetwork: false },
+        connected
+      );
+      expect(state.step).toEqual({ name: 'checking' });
+    });
+
+    it('keeps the step when the same account reconnects', () => {
+      const state = run(connected, notDeposited, connected);
+      expect(state.step).toEqual({ name: 'needs-approval' });
+    });
+
+    it('starts over on an account change', () => {
+      const state = run(connected, notDeposited, { type: 'WALLET_CONNECTED', address: OTHER_ADDRESS, isCorrectNetwork: true });
+      expect(state).toEqual({ address: OTHER_ADDRESS, step: { name: 'checking' }, error: null });
+    });
+
+    it('resets on disconnect', () => {
+      expect(run(connected, depositedStatus, { type: 'WALLET_DISCONNECTED' })).toEqual(initialDepositFlowState);
+    });
+
+    it('ignores results of a previous account', () => {
+      const state = run(connected, { ...depositedStatus, address: OTHER_ADDRESS });
+      expect(state.step).toEqual({ name: 'checking' });
+    });
+  });
+
+  describe('status check', () => {
+    it('needs an approval when nothing was approved', () => {
+      expect(run(connected, notDeposited).step).toEqual({ name: 'needs-approval' });
+    });
+
+    it('goes straight to the deposit when already approved', () => {
+      expect(run(connected, approvedStatus).step).toEqual({ name: 'approved' });
+    });
+
+    it('shows an existing deposit', () => {
+      expect(run(connected, depositedStatus).step).toEqual({
+        name: 'deposited',
+        remainingDeposit: BigInt(50),
+        justDeposited: false,
+        transactionHash: null,
+      });
+    });
+
+    it('retries a failed check', () => {
+      const failed = run(connected, { type: 'STATUS_FAILED', address: ADDRESS, error: { code: 'NETWORK_ERROR' } });
+      expect(failed.step).toEqual({ name: 'check-failed', error: { code: 'NETWORK_ERROR' } });
+
+      const retried = depositFlowReducer(failed, { type: 'STATUS_REQUESTED', address: ADDRESS });
+      expect(retried.step).toEqual({ name: 'checking' });
+      expect(depositFlowReducer(retried, notDeposited).step).toEqual({ name: 'needs-approval' });
+    });
+
+    it('does not interrupt a pending transaction', () => {
+      const state = run(connected, notDeposited, { type: 'APPROVE_STARTED', address: ADDRESS }, {
+        type: 'STATUS_FAILED',
+        address: ADDRESS,
+        error: { code: 'NETWORK_ERROR' },
+      });
+      expect(state.step).toEqual({ name: 'approving' });
+    });
+  });
+
+  describe('approve and deposit', () => {
+    it('approves, then deposits', () => {
+      const approving = run(connected, notDeposited, { type: 'APPROVE_STARTED', address: ADDRESS });
+      expect(approving.step).toEqual({ name: 'approving' });
+      expect(selectApprovalStatus(approving.step)).toBe('pending');
+
+      const approved = depositFlowReducer(approving, { type: 'APPROVE_SUCCEEDED', address: ADDRESS });
+      expect(selectApprovalStatus(approved.step)).toBe('approved');
+
+      const depositing = depositFlowReducer(approved, { type: 'DEPOSIT_STARTED', address: ADDRESS });
+      expect(selectDepositStatus(depositing.step)).toBe('pending');
+
+      const deposited = depositFlowReducer(depositing, {
+        type: 'DEPOSIT_SUCCEEDED',
+        address: ADDRESS,
+        amount: BigInt(50),
+        transactionHash: '0xabc',
+      });
+      expect(deposited.step).toEqual({ name: 'deposited', remainingDeposit: BigInt(50), justDeposited: true, transactionHash: '0xabc' });
+      expect(selectDepositStatus(deposited.step)).toBe('success');
+    });
+
+    it('returns to the approval without a popup when the user rejects it', () => {
+      const state = run(connected, notDeposited, { type: 'APPROVE_STARTED', address: ADDRESS }, {
+        type: 'APPROVE_FAILED',
+        address: ADDRESS,
+        error: { code: 'USER_REJECTED' },
+      });
+      expect(state.step).toEqual({ name: 'needs-approval' });
+      expect(state.error).toBeNull();
+    });
+
+    it('shows the error of a failed approval and allows a retry', () => {
+      const failed = run(connected, notDeposited, { type: 'APPROVE_STARTED', address: ADDRESS }, {
+        type: 'APPROVE_FAILED',
+        address: ADDRESS,
+        error: { code: 'NETWORK_ERROR' },
+      });
+      expect(failed.step).toEqual({ name: 'approval-failed' });
+      expect(failed.error).toEqual({ code: 'NETWORK_ERROR' });
+      expect(depositFlowReducer(failed, { type: 'APPROVE_STARTED', address: ADDRESS })).toEqual({
+        ...failed,
+        step: { name: 'approving' },
+        error: null,
+      });
+    });
+
+    it('asks for a new approval when the allowance was spent', () => {
+      const state = run(connected, approvedStatus, { type: 'DEPOSIT_STARTED', address: ADDRESS }, {
+        type: 'DEPOSIT_FAILED',
+        address: ADDRESS,
+        error: { code: 'INSUFFICIENT_ALLOWANCE' },
+      });
+      expect(state.step).toEqual({ name: 'needs-approval' });
+    });
+
+    it('ignores a deposit before the approval', () => {
+      const state = run(connected, notDeposited);
+      expect(depositFlowReducer(state, { type: 'DEPOSIT_STARTED', address: ADDRESS })).toBe(state);
+    });
+  });
+
+  describe('batch', () => {
+    it('approves and deposits in one step', () => {
+      const pending = run(connected, notDeposited, { type: 'BATCH_STARTED', address: ADDRESS });
+      expect(pending.step).toEqual({ name: 'approving-and-depositing' });
+      expect(selectApprovalStatus(pending.step)).toBe('pending');
+      expect(selectDepositStatus(pending.step)).toBe('pending');
+
+      const done = depositFlowReducer(pending, { type: 'BATCH_SUCCEEDED', address: ADDRESS, amount: BigInt(50), transactionHash: null });
+      expect(done.step).toEqual({ name: 'deposited', remainingDeposit: BigInt(50), justDeposited: true, transactionHash: null });
+    });
+
+    it('falls back to the two-step flow when batching is unsupported', () => {
+      const state = run(connected, notDeposited, { type: 'BATCH_STARTED', address: ADDRESS }, {
+        type: 'BATCH_FAILED',
+        address: ADDRESS,
+        error: { code: 'BATCH_UNSUPPORTED' },
+      });
+      expect(state.step).toEqual({ name: 'needs-approval' });
+      expect(state.error).toEqual({ code: 'BATCH_UNSUPPORTED' });
+    });
+  });
+
+  describe('allowance reset', () => {
+    const staleAllowance: DepositFlowEvent = { ...notDeposited, allowanceToReset: BigInt(10) };
+
+    it('asks to reset a stale allowance, then to approve', () => {
+      const needsReset = run(connected, staleAllowance);
+      expect(needsReset.step).toEqual({ name: 'needs-allowance-reset', currentAllowance: BigInt(10) });
+
+      const resetting = depositFlowReducer(needsReset, { type: 'ALLOWANCE_RESET_STARTED', address: ADDRESS });
+      expect(resetting.step).toEqual({ name: 'resetting-allowance', currentAllowance: BigInt(10) });
+
+      const reset = depositFlowReducer(resetting, { type: 'ALLOWANCE_RESET_SUCCEEDED', address: ADDRESS });
+      expect(reset.step).toEqual({ name: 'needs-approval' });
+    });
+
+    it('keeps the reset step after a failure', () => {
+      const state = run(connected, staleAllowance, { type: 'ALLOWANCE_RESET_STARTED', address: ADDRESS }, {
+        type: 'ALLOWANCE_RESET_FAILED',
+        address: ADDRESS,
+        error: { code: 'NETWORK_ERROR' },
+      });
+      expect(state.step).toEqual({ name: 'allowance-reset-failed', currentAllowance: BigInt(10) });
+      expect(state.error).toEqual({ code: 'NETWORK_ERROR' });
+    });
+
+    it('switches to the reset when an approval needs it', () => {
+      const state = run(connected, notDeposited, { type: 'APPROVE_STARTED', address: ADDRESS }, {
+        type: 'APPROVE_FAILED',
+        address: ADDRESS,
+        error: { code: 'ALLOWANCE_RESET_REQUIRED', currentAllowance: BigInt(7) },
+      });
+      expect(state.step).toEqual({ name: 'needs-allowance-reset', currentAllowance: BigInt(7) });
+      expect(state.error).toBeNull();
+    });
+  });
+
+  describe('refund', () => {
+    it('withdraws the remaining deposit', () => {
+      const withdrawing = run(connected, depositedStatus, { type: 'WITHDRAW_STARTED', address: ADDRESS });
+      expect(withdrawing.step).toEqual({ name: 'withdrawing', remainingDeposit: BigInt(50) });
+      expect(selectWithdrawStatus(withdrawing.step)).toBe('pending');
+
+      const withdrawn = depositFlowReducer(withdrawing, { type: 'WITHDRAW_SUCCEEDED', address: ADDRESS });
+      expect(withdrawn.step).toEqual({ name: 'withdrawn' });
+      expect(selectWithdrawStatus(withdrawn.step)).toBe('success');
+    });
+
+    it('returns to the deposit when the user rejects the refund', () => {
+      const state = run(connected, depositedStatus, { type: 'WITHDRAW_STARTED', address: ADDRESS }, {
+        type: 'WITHDRAW_FAILED',
+        address: ADDRESS,
+        error: { code: 'USER_REJECTED' },
+      });
+      expect(state.step).toEqual({ name: 'deposited', remainingDeposit: BigInt(50), justDeposited: false, transactionHash: null });
+    });
+
+    it('marks a failed refund for retry', () => {
+      const state = run(connected, depositedStatus, { type: 'WITHDRAW_STARTED', address: ADDRESS }, {
+        type: 'WITHDRAW_FAILED',
+        address: ADDRESS,
+        error: { code: 'COURSE_NOT_FINALIZED' },
+      });
+      expect(state.step).toEqual({ name: 'withdraw-failed', remainingDeposit: BigInt(50) });
+      expect(depositFlowReducer(state, { type: 'WITHDRAW_STARTED', address: ADDRESS }).step.name).toBe('withdrawing');
+    });
+  });
+
+  describe('resumed transactions', () => {
+    it.each([
+      ['approve', { name: 'approving' }],
+      ['deposit', { name: 'depositing' }],
+      ['batch', { name: 'approving-and-depositing' }],
+    ] as const)('resumes a pending %s', (kind, step) => {
+      const state = run(connected, { type: 'TRANSACTION_RESUMED', address: ADDRESS, kind });
+      expect(state.step).toEqual(step);
+    });
+
+    it('resumes a pending refund with the known remaining deposit', () => {
+      const state = run(connected, depositedStatus, { type: 'TRANSACTION_RESUMED', address: ADDRESS, kind: 'withdraw' });
+      expect(state.step).toEqual({ name: 'withdrawing', remainingDeposit: BigInt(50) });
+    });
+
+    it('resumes a pending allowance reset', () => {
+      const state = run(
+        connected,
+        { ...notDeposited, allowanceToReset: BigInt(10) },
+        { type: 'TRANSACTION_RESUMED', address: ADDRESS, kind: 'reset-allowance' }
+      );
+      expect(state.step).toEqual({ name: 'resetting-allowance', currentAllowance: BigInt(10) });
+    });
+
+    it('completes a resumed deposit', () => {
+      const state = run(
+        connected,
+        { type: 'TRANSACTION_RESUMED', address: ADDRESS, kind: 'deposit' },
+        { type: 'DEPOSIT_SUCCEEDED', address: ADDRESS, amount: BigInt(50), transactionHash: '0xabc' }
+      );
+      expect(selectHasDeposited(state.step)).toBe(true);
+    });
+
+    it('is ignored on the wrong network', () => {
+      const state = run({ type: 'WALLET_CONNECTED', address: ADDRESS, isCorrectNetwork: false }, {
+        type: 'TRANSACTION_RESUMED',
+        address: ADDRESS,
+        kind: 'deposit',
+      });
+      expect(state.step).toEqual({ name: 'wrong-network' });
+    });
+  });
+
+  it('dismisses the error popup', () => {
+    const failed = run(connected, notDeposited, { type: 'APPROVE_STARTED', address: ADDRESS }, {
+      type: 'APPROVE_FAILED',
+      address: ADDRESS,
+      error: { code: 'NETWORK_ERROR' },
+    });
+    expect(depositFlowReducer(failed, { type: 'ERROR_DISMISSED' }).error).toBeNull();
+  });
+});
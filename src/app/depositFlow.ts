@@ -0,0 +1,456 @@
+import type { DepositError } from './errors';
+import type { PendingTransactionKind } from './pendingTransactions';
+
+/**
+ * Explicit state machine for the approve → deposit → refund flow.
+ *
+ * The reducer is pure so it can be unit tested and reused outside of `Home`;
+ * `useDepositFlow` wires it to the wallet, the contract reads and the transactions.
+ */
+
+export type DepositFlowStep =
+  | { name: 'disconnected' }
+  | { name: 'wrong-network' }
+  | { name: 'checking' }
+  | { name: 'check-failed'; error: DepositError }
+  // A stale partial allowance has to be set to 0 before approving (USDT-style tokens)
+  | { name: 'needs-allowance-reset'; currentAllowance: bigint | null }
+  | { name: 'resetting-allowance'; currentAllowance: bigint | null }
+  | { name: 'allowance-reset-failed'; currentAllowance: bigint | null }
+  | { name: 'needs-approval' }
+  | { name: 'approving' }
+  | { name: 'approval-failed' }
+  | { name: 'approved' }
+  | { name: 'depositing' }
+  | { name: 'deposit-failed' }
+  // Approve and deposit sent together as one EIP-5792 batch
+  | { name: 'approving-and-depositing' }
+  // `transactionHash` is only known for a deposit made in this session
+  | { name: 'deposited'; remainingDeposit: bigint | null; justDeposited: boolean; transactionHash: string | null }
+  | { name: 'withdrawing'; remainingDeposit: bigint | null }
+  | { name: 'withdraw-failed'; remainingDeposit: bigint | null }
+  | { name: 'withdrawn' };
+
+export type DepositFlowStepName = DepositFlowStep['name'];
+
+export interface DepositFlowState {
+  // Account the current step belongs to
+  address: string | null;
+  step: DepositFlowStep;
+  // Transaction error to show in the error popup
+  error: DepositError | null;
+}
+
+export type DepositFlowEvent =
+  // Wallet connected, account changed or network switched
+  | { type: 'WALLET_CONNECTED'; address: string; isCorrectNetwork: boolean }
+  | { type: 'WALLET_DISCONNECTED' }
+  // On-chain status reads
+  | { type: 'STATUS_REQUESTED'; address: string }
+  | { type: 'STATUS_LOADED'; address: string; hasDeposited: true; remainingDeposit: bigint }
+  // `allowanceToReset` is the existing allowance when it must be reset to 0 before approving
+  | { type: 'STATUS_LOADED'; address: string; hasDeposited: false; isApproved: boolean; allowanceToReset: bigint | null }
+  | { type: 'STATUS_FAILED'; address: string; error: DepositError }
+  // Transaction submitted before a page reload and still pending
+  | { type: 'TRANSACTION_RESUMED'; address: string; kind: PendingTransactionKind }
+  // Allowance reset (approve 0) transaction
+  | { type: 'ALLOWANCE_RESET_STARTED'; address: string }
+  | { type: 'ALLOWANCE_RESET_SUCCEEDED'; address: string }
+  | { type: 'ALLOWANCE_RESET_FAILED'; address: string; error: DepositError }
+  // Approve transaction
+  | { type: 'APPROVE_STARTED'; address: string }
+  | { type: 'APPROVE_SUCCEEDED'; address: string }
+  | { type: 'APPROVE_FAILED'; address: string; error: DepositError }
+  // Deposit transaction
+  | { type: 'DEPOSIT_STARTED'; address: string }
+  | { type: 'DEPOSIT_SUCCEEDED'; address: string; amount: bigint; transactionHash: string }
+  | { type: 'DEPOSIT_FAILED'; address: string; error: DepositError }
+  // Approve + deposit batch (EIP-5792)
+  | { type: 'BATCH_STARTED'; address: string }
+  | { type: 'BATCH_SUCCEEDED'; address: string; amount: bigint; transactionHash: string | null }
+  | { type: 'BATCH_FAILED'; address: string; error: DepositError }
+  // Refund (withdraw) transaction
+  | { type: 'WITHDRAW_STARTED'; address: string }
+  | { type: 'WITHDRAW_SUCCEEDED'; address: string }
+  | { type: 'WITHDRAW_FAILED'; address: string; error: DepositError }
+  | { type: 'ERROR_DISMISSED' };
+
+export const initialDepositFlowState: DepositFlowState = {
+  address: null,
+  step: { name: 'disconnected' },
+  error: null,
+};
+
+const PENDING_STEPS: DepositFlowStepName[] = [
+  'resetting-allowance',
+  'approving',
+  'depositing',
+  'approving-and-depositing',
+  'withdrawing',
+];
+
+export function canResetAllowance(step: DepositFlowStep): boolean {
+  return step.name === 'needs-allowance-reset' || step.name === 'allowance-reset-failed';
+}
+
+export function canApprove(step: DepositFlowStep): boolean {
+  return step.name === 'needs-approval' || step.name === 'approval-failed';
+}
+
+export function canDeposit(step: DepositFlowStep): boolean {
+  return step.name === 'approved' || step.name === 'deposit-failed';
+}
+
+export function canWithdraw(
+  step: DepositFlowStep
+): step is Extract<DepositFlowStep, { name: 'deposited' | 'withdraw-failed' }> {
+  return step.name === 'deposited' || step.name === 'withdraw-failed';
+}
+
+/**
+ * Apply an on-chain status read. Reads never interrupt a pending transaction,
+ * and a confirmed approval or deposit is not rolled back by a lagging RPC node.
+ */
+function applyStatus(
+  step: DepositFlowStep,
+  event: Extract<DepositFlowEvent, { type: 'STATUS_LOADED' }>
+): DepositFlowStep {
+  switch (step.name) {
+    case 'checking':
+    case 'check-failed':
+    case 'needs-allowance-reset':
+    case 'allowance-reset-failed':
+    case 'needs-approval':
+    case 'approval-failed':
+      if (event.hasDeposited) {
+        return { name: 'deposited', remainingDeposit: event.remainingDeposit, justDeposited: false, transactionHash: null };
+      }
+      if (event.isApproved) {
+        return { name: 'approved' };
+      }
+      if (event.allowanceToReset !== null) {
+        return step.name === 'allowance-reset-failed'
+          ? { ...step, currentAllowance: event.allowanceToReset }
+          : { name: 'needs-allowance-reset', currentAllowance: event.allowanceToReset };
+      }
+      return step.name === 'approval-failed' ? step : { name: 'needs-approval' };
+    case 'approved':
+    case 'deposit-failed':
+      if (event.hasDeposited) {
+        return { name: 'deposited', remainingDeposit: event.remainingDeposit, justDeposited: false, transactionHash: null };
+      }
+      return step;
+    case 'deposited':
+    case 'withdraw-failed':
+      if (event.hasDeposited) {
+        return { ...step, remainingDeposit: event.remainingDeposit };
+      }
+      return step;
+    default:
+      return step;
+  }
+}
+
+export function depositFlowReducer(state: DepositFlowState, event: DepositFlowEvent): DepositFlowState {
+  const { step } = state;
+
+  switch (event.type) {
+    case 'WALLET_CONNECTED': {
+      if (!event.isCorrectNetwork) {
+        return step.name === 'wrong-network' && state.address === event.address
+          ? state
+          : { address: event.address, step: { name: 'wrong-network' }, error: null };
+      }
+      // Same account on the right network: nothing changed
+      if (state.address === event.address && step.name !== 'wrong-network' && step.name !== 'disconnected') {
+        return state;
+      }
+      // New connection, account change or switch back to the right network
+      return { address: event.address, step: { name: 'checking' }, error: null };
+    }
+
+    case 'WALLET_DISCONNECTED':
+      return step.name === 'disconnected' ? state : initialDepositFlowState;
+
+    case 'ERROR_DISMISSED':
+      return state.error ? { ...state, error: null } : state;
+  }
+
+  // Ignore results that belong to a previously connected account
+  if (event.address !== state.address) {
+    return state;
+  }
+
+  switch (event.type) {
+    case 'STATUS_REQUESTED':
+      return step.name === 'check-failed' ? { ...state, step: { name: 'checking' } } : state;
+
+    case 'STATUS_LOADED': {
+      const nextStep = applyStatus(step, event);
+      return nextStep === step ? state : { ...state, step: nextStep };
+    }
+
+    case 'STATUS_FAILED':
+      if (PENDING_STEPS.includes(step.name) || step.name === 'wrong-network' || step.name === 'disconnected') {
+        return state;
+      }
+      return { ...state, step: { name: 'check-failed', error: event.error } };
+
+    case 'TRANSACTION_RESUMED':
+      if (PENDING_STEPS.includes(step.name) || step.name === 'wrong-network' || step.name === 'disconnected') {
+        return state;
+      }
+      switch (event.kind) {
+        case 'reset-allowance':
+          return {
+            ...state,
+            step: { name: 'resetting-allowance', currentAllowance: selectAllowanceReset(step)?.currentAllowance ?? null },
+          };
+        case 'approve':
+          return { ...state, step: { name: 'approving' } };
+        case 'deposit':
+          return { ...state, step: { name: 'depositing' } };
+        case 'batch':
+          return { ...state, step: { name: 'approving-and-depositing' } };
+        case 'withdraw':
+          return {
+            ...state,
+            step: { name: 'withdrawing', remainingDeposit: selectRemainingDeposit(step) },
+          };
+      }
+
+    case 'ALLOWANCE_RESET_STARTED':
+      return canResetAllowance(step)
+        ? {
+          ...state,
+          step: { name: 'resetting-allowance', currentAllowance: selectAllowanceReset(step)?.currentAllowance ?? null },
+          error: null,
+        }
+        : state;
+
+    case 'ALLOWANCE_RESET_SUCCEEDED':
+      return step.name === 'resetting-allowance' ? { ...state, step: { name: 'needs-approval' } } : state;
+
+    case 'ALLOWANCE_RESET_FAILED':
+      if (step.name !== 'resetting-allowance') return state;
+      if (event.error.code === 'USER_REJECTED') {
+        return { ...state, step: { name: 'needs-allowance-reset', currentAllowance: step.currentAllowance } };
+      }
+      return {
+        ...state,
+        step: { name: 'allowance-reset-failed', currentAllowance: step.currentAllowance },
+        error: event.error,
+      };
+
+    case 'APPROVE_STARTED':
+      return canApprove(step) ? { ...state, step: { name: 'approving' }, error: null } : state;
+
+    case 'APPROVE_SUCCEEDED':
+      return step.name === 'approving' ? { ...state, step: { name: 'approved' } } : state;
+
+    case 'APPROVE_FAILED':
+      if (step.name !== 'approving') return state;
+      // User rejected transaction - don't show error popup, just reset status
+      if (event.error.code === 'USER_REJECTED') {
+        return { ...state, step: { name: 'needs-approval' } };
+      }
+      // The reset step explains itself, so no error popup either
+      if (event.error.code === 'ALLOWANCE_RESET_REQUIRED') {
+        return { ...state, step: { name: 'needs-allowance-reset', currentAllowance: event.error.currentAllowance } };
+      }
+      return { ...state, step: { name: 'approval-failed' }, error: event.error };
+
+    case 'DEPOSIT_STARTED':
+      return canDeposit(step) ? { ...state, step: { name: 'depositing' }, error: null } : state;
+
+    case 'DEPOSIT_SUCCEEDED':
+      return step.name === 'depositing'
+        ? {
+          ...state,
+          step: { name: 'deposited', remainingDeposit: event.amount, justDeposited: true, transactionHash: event.transactionHash },
+        }
+        : state;
+
+    case 'DEPOSIT_FAILED':
+      if (step.name !== 'depositing') return state;
+      switch (event.error.code) {
+        case 'USER_REJECTED':
+          return { ...state, step: { name: 'approved' } };
+        case 'INSUFFICIENT_ALLOWANCE':
+          // Allowance was spent or revoked, so the user has to approve again
+          return { ...state, step: { name: 'needs-approval' }, error: event.error };
+        case 'ALREADY_DEPOSITED':
+          return {
+            ...state,
+            step: { name: 'deposited', remainingDeposit: null, justDeposited: false, transactionHash: null },
+            error: event.error,
+          };
+        default:
+          return { ...state, step: { name: 'deposit-failed' }, error: event.error };
+      }
+
+    case 'BATCH_STARTED':
+      return canApprove(step) ? { ...state, step: { name: 'approving-and-depositing' }, error: null } : state;
+
+    case 'BATCH_SUCCEEDED':
+      return step.name === 'approving-and-depositing'
+        ? {
+          ...state,
+          step: { name: 'deposited', remainingDeposit: event.amount, justDeposited: true, transactionHash: event.transactionHash },
+        }
+        : state;
+
+    case 'BATCH_FAILED':
+      if (step.name !== 'approving-and-depositing') return state;
+      switch (event.error.code) {
+        case 'USER_REJECTED':
+          return { ...state, step: { name: 'needs-approval' } };
+        case 'BATCH_UNSUPPORTED':
+          // The two-step flow is still available
+          return { ...state, step: { name: 'needs-approval' }, error: event.error };
+        case 'ALLOWANCE_RESET_REQUIRED':
+          return { ...state, step: { name: 'needs-allowance-reset', currentAllowance: event.error.currentAllowance } };
+        case 'ALREADY_DEPOSITED':
+          return {
+            ...state,
+            step: { name: 'deposited', remainingDeposit: null, justDeposited: false, transactionHash: null },
+            error: event.error,
+          };
+        default:
+          // The batch is atomic, so nothing was approved either
+          return { ...state, step: { name: 'approval-failed' }, error: event.error };
+      }
+
+    case 'WITHDRAW_STARTED':
+      return canWithdraw(step)
+        ? { ...state, step: { name: 'withdrawing', remainingDeposit: step.remainingDeposit }, error: null }
+        : state;
+
+    case 'WITHDRAW_SUCCEEDED':
+      return step.name === 'withdrawing' ? { ...state, step: { name: 'withdrawn' } } : state;
+
+    case 'WITHDRAW_FAILED':
+      if (step.name !== 'withdrawing') return state;
+      switch (event.error.code) {
+        case 'USER_REJECTED':
+          return {
+            ...state,
+            step: { name: 'deposited', remainingDeposit: step.remainingDeposit, justDeposited: false, transactionHash: null },
+          };
+        case 'NO_REMAINING_DEPOSIT':
+          return {
+            ...state,
+            step: { name: 'deposited', remainingDeposit: BigInt(0), justDeposited: false, transactionHash: null },
+            error: event.error,
+          };
+        default:
+          return {
+            ...state,
+            step: { name: 'withdraw-failed', remainingDeposit: step.remainingDeposit },
+            error: event.error,
+          };
+      }
+  }
+}
+
+// Selectors mapping the current step onto the per-button statuses used by the UI
+
+export function selectHasDeposited(step: DepositFlowStep): boolean | null {
+  switch (step.name) {
+    case 'needs-allowance-reset':
+    case 'resetting-allowance':
+    case 'allowance-reset-failed':
+    case 'needs-approval':
+    case 'approving':
+    case 'approval-failed':
+    case 'approved':
+    case 'depositing':
+    case 'deposit-failed':
+    case 'approving-and-depositing':
+      return false;
+    case 'deposited':
+    case 'withdrawing':
+    case 'withdraw-failed':
+    case 'withdrawn':
+      return true;
+    default:
+      return null;
+  }
+}
+
+export function selectApprovalStatus(step: DepositFlowStep): 'idle' | 'pending' | 'approved' | 'failed' {
+  switch (step.name) {
+    case 'approving':
+    case 'approving-and-depositing':
+      return 'pending';
+    case 'approval-failed':
+      return 'failed';
+    case 'approved':
+    case 'depositing':
+    case 'deposit-failed':
+      return 'approved';
+    default:
+      return 'idle';
+  }
+}
+
+export function selectDepositStatus(step: DepositFlowStep): 'idle' | 'pending' | 'success' | 'failed' {
+  switch (step.name) {
+    case 'depositing':
+    case 'approving-and-depositing':
+      return 'pending';
+    case 'deposit-failed':
+      return 'failed';
+    case 'deposited':
+      return step.justDeposited ? 'success' : 'idle';
+    default:
+      return 'idle';
+  }
+}
+
+export function selectWithdrawStatus(step: DepositFlowStep): 'idle' | 'pending' | 'success' | 'failed' {
+  switch (step.name) {
+    case 'withdrawing':
+      return 'pending';
+    case 'withdraw-failed':
+      return 'failed';
+    case 'withdrawn':
+      return 'success';
+    default:
+      return 'idle';
+  }
+}
+
+export function selectRemainingDeposit(step: DepositFlowStep): bigint | null {
+  switch (step.name) {
+    case 'deposited':
+    case 'withdrawing':
+    case 'withdraw-failed':
+      return step.remainingDeposit;
+    case 'withdrawn':
+      return BigInt(0);
+    default:
+      return null;
+  }
+}
+
+// Hash of the deposit made in this session, for linking to its receipt
+export function selectDepositTransactionHash(step: DepositFlowStep): string | null {
+  return step.name === 'deposited' ? step.transactionHash : null;
+}
+
+// Pending allowance reset, or null when no reset is needed
+export function selectAllowanceReset(
+  step: DepositFlowStep
+): { status: 'idle' | 'pending' | 'failed'; currentAllowance: bigint | null } | null {
+  switch (step.name) {
+    case 'needs-allowance-reset':
+      return { status: 'idle', currentAllowance: step.currentAllowance };
+    case 'resetting-allowance':
+      return { status: 'pending', currentAllowance: step.currentAllowance };
+    case 'allowance-reset-failed':
+      return { status: 'failed', currentAllowance: step.currentAllowance };
+    default:
+      return null;
+  }
+}
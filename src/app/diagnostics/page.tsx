@@ -0,0 +1,8 @@
+'use client';
+
+import { ConfigDiagnosticsView } from '../components/ConfigDiagnostics';
+import { useConfigDiagnostics } from '../hooks/useConfigDiagnostics';
+
+export default function DiagnosticsPage() {
+  return <ConfigDiagnosticsView diagnostics={useConfigDiagnostics()} />;
+}
@@ -0,0 +1,29 @@
+import { makeError } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { classifyError } from './errors';
+
+// Shape of the error ethers throws from `wait()` when another transaction took the nonce
+function replacedError(reason: 'repriced' | 'cancelled' | 'replaced', status: number) {
+  return makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+    cancelled: reason !== 'repriced',
+    reason,
+    replacement: null as never,
+    hash: '0xabc',
+    receipt: { status, hash: '0xabc' } as never,
+  });
+}
+
+describe('classifyError', () => {
+  it('reports a cancelled or replaced transaction as dropped', () => {
+    expect(classifyError(replacedError('cancelled', 1))).toEqual({ code: 'TRANSACTION_DROPPED' });
+    expect(classifyError(replacedError('replaced', 1))).toEqual({ code: 'TRANSACTION_DROPPED' });
+  });
+
+  it('reports a reverted repriced transaction as a revert', () => {
+    expect(classifyError(replacedError('repriced', 0))).toEqual({ code: 'CONTRACT_REVERTED', errorName: null });
+  });
+
+  it('classifies errors wrapped by the contract utilities', () => {
+    expect(classifyError(new Error('wrapped', { cause: replacedError('cancelled', 1) }))).toEqual({ code: 'TRANSACTION_DROPPED' });
+  });
+});
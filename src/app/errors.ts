@@ -0,0 +1,270 @@
+import { Interface, isError } from 'ethers';
+import { SecurityDepositPool__factory } from './abi';
+import { DEFAULT_LOCALE, formatDateTime, Messages, MESSAGES } from './i18n';
+import { formatTokenAmount, TokenMetadata } from './token';
+
+/**
+ * Typed, stable classification of everything that can go wrong while
+ * reading from or transacting with the security deposit pool.
+ */
+export type DepositError =
+  | { code: 'USER_REJECTED' }
+  | { code: 'WALLET_NOT_CONNECTED' }
+  | { code: 'UNSUPPORTED_CHAIN' }
+  | { code: 'CONFIGURATION_ERROR' }
+  | { code: 'INVALID_ADDRESS' }
+  | { code: 'NAME_NOT_RESOLVED'; name: string }
+  | { code: 'INSUFFICIENT_GAS_FUNDS' }
+  | { code: 'INSUFFICIENT_TOKEN_BALANCE'; required?: bigint }
+  | { code: 'INSUFFICIENT_ALLOWANCE' }
+  // USDT-style tokens reject changing a non-zero allowance to another non-zero value
+  | { code: 'ALLOWANCE_RESET_REQUIRED'; currentAllowance: bigint }
+  | { code: 'ALREADY_DEPOSITED' }
+  | { code: 'NOT_DEPOSITED' }
+  | { code: 'COURSE_FINALIZED' }
+  | { code: 'COURSE_NOT_FINALIZED'; finalizedTime?: bigint }
+  | { code: 'NO_REMAINING_DEPOSIT' }
+  | { code: 'CONTRACT_REVERTED'; errorName: string | null }
+  | { code: 'NONCE_ERROR' }
+  | { code: 'TRANSACTION_DROPPED' }
+  | { code: 'BATCH_UNSUPPORTED' }
+  | { code: 'NETWORK_ERROR' }
+  | { code: 'RATE_LIMITED' }
+  | { code: 'UNKNOWN' };
+
+export type DepositErrorCode = DepositError['code'];
+
+/**
+ * Error thrown by the contract utilities, carrying the classified error
+ */
+export class DepositPoolError extends Error {
+  readonly error: DepositError;
+
+  constructor(error: DepositError, options?: { cause?: unknown }) {
+    super(describeDepositError(error), options);
+    this.name = 'DepositPoolError';
+    this.error = error;
+  }
+}
+
+// Pool custom errors that have a dedicated code; all others become CONTRACT_REVERTED
+const POOL_ERROR_CODES: Record<string, DepositErrorCode> = {
+  AlreadyDeposited: 'ALREADY_DEPOSITED',
+  HasNotDeposited: 'NOT_DEPOSITED',
+  CourseFinalized: 'COURSE_FINALIZED',
+  CourseNotFinalized: 'COURSE_NOT_FINALIZED',
+  NoRemainingDeposit: 'NO_REMAINING_DEPOSIT',
+  ERC20InsufficientAllowance: 'INSUFFICIENT_ALLOWANCE',
+  ERC20InsufficientBalance: 'INSUFFICIENT_TOKEN_BALANCE',
+};
+
+// Legacy (pre custom error) ERC20 revert strings
+const TOKEN_REVERT_REASONS: Record<string, DepositErrorCode> = {
+  'ERC20: insufficient allowance': 'INSUFFICIENT_ALLOWANCE',
+  'ERC20: transfer amount exceeds allowance': 'INSUFFICIENT_ALLOWANCE',
+  'ERC20: transfer amount exceeds balance': 'INSUFFICIENT_TOKEN_BALANCE',
+};
+
+const poolInterface = SecurityDepositPool__factory.createInterface();
+
+// OpenZeppelin v5 ERC20 errors bubbled up through SafeERC20
+const tokenErrorsInterface = new Interface([
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+]);
+
+// EIP-1193 provider error codes and EIP-1474 JSON-RPC error codes
+const RPC_ERROR_CODES: Record<number, DepositErrorCode> = {
+  4001: 'USER_REJECTED',
+  4100: 'WALLET_NOT_CONNECTED',
+  4900: 'NETWORK_ERROR',
+  4901: 'UNSUPPORTED_CHAIN',
+  4902: 'UNSUPPORTED_CHAIN',
+  [-32005]: 'RATE_LIMITED',
+  // EIP-5792 wallet_sendCalls errors
+  4200: 'BATCH_UNSUPPORTED',
+  5700: 'BATCH_UNSUPPORTED',
+  5710: 'BATCH_UNSUPPORTED',
+  5730: 'TRANSACTION_DROPPED',
+  5740: 'BATCH_UNSUPPORTED',
+  5750: 'BATCH_UNSUPPORTED',
+  5760: 'BATCH_UNSUPPORTED',
+};
+
+// viem / wagmi error classes, identified by their stable `name`
+const CLIENT_ERROR_NAMES: Record<string, DepositErrorCode> = {
+  ConnectorNotConnectedError: 'WALLET_NOT_CONNECTED',
+  ChainMismatchError: 'UNSUPPORTED_CHAIN',
+  ChainNotConfiguredError: 'UNSUPPORTED_CHAIN',
+  InsufficientFundsError: 'INSUFFICIENT_GAS_FUNDS',
+  NonceTooLowError: 'NONCE_ERROR',
+  NonceTooHighError: 'NONCE_ERROR',
+  HttpRequestError: 'NETWORK_ERROR',
+  TimeoutError: 'NETWORK_ERROR',
+  WebSocketRequestError: 'NETWORK_ERROR',
+};
+
+type ErrorLike = {
+  name?: unknown;
+  status?: unknown;
+  code?: unknown;
+  data?: unknown;
+  reason?: unknown;
+  revert?: { name?: unknown } | null;
+  error?: unknown;
+  info?: { error?: unknown } | null;
+  cause?: unknown;
+  response?: { statusCode?: unknown } | null;
+};
+
+/**
+ * Flatten the wrapped errors of ethers (`error`, `info.error`) and viem (`cause`)
+ */
+function unwrapErrors(error: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  const queue: unknown[] = [error];
+
+  while (queue.length > 0 && chain.length < 10) {
+    const current = queue.shift();
+    if (!current || typeof current !== 'object' || chain.includes(current as ErrorLike)) {
+      continue;
+    }
+    const errorLike = current as ErrorLike;
+    chain.push(errorLike);
+    queue.push(errorLike.error, errorLike.info?.error, errorLike.cause);
+    // Some wallets nest the revert payload as `data: { data: '0x...' }`
+    if (errorLike.data && typeof errorLike.data === 'object') {
+      queue.push(errorLike.data);
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Decode revert data against the pool ABI and the ERC20 errors
+ * @returns The custom error name and, for `Error(string)`, its reason
+ */
+function decodeRevertData(data: string): { name: string; reason: string | null } | null {
+  for (const iface of [poolInterface, tokenErrorsInterface]) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return {
+          name: parsed.name,
+          reason: parsed.name === 'Error' ? String(parsed.args[0]) : null,
+        };
+      }
+    } catch {
+      // Not decodable with this interface
+    }
+  }
+  return null;
+}
+
+function classifyRevert(name: string | null, reason: string | null): DepositError {
+  if (name && POOL_ERROR_CODES[name]) {
+    return { code: POOL_ERROR_CODES[name] } as DepositError;
+  }
+  if (reason && TOKEN_REVERT_REASONS[reason]) {
+    return { code: TOKEN_REVERT_REASONS[reason] } as DepositError;
+  }
+  return { code: 'CONTRACT_REVERTED', errorName: name && name !== 'Error' ? name : reason };
+}
+
+/**
+ * Classify any error thrown by ethers, viem, the wallet or the RPC node
+ * @param error - The caught error
+ * @returns The typed deposit error
+ */
+export function classifyError(error: unknown): DepositError {
+  if (error instanceof DepositPoolError) {
+    return error.error;
+  }
+
+  const chain = unwrapErrors(error);
+
+  // Contract reverts first: the revert reason is the most specific information
+  for (const item of chain) {
+    if (item.revert && typeof item.revert.name === 'string') {
+      return classifyRevert(item.revert.name, typeof item.reason === 'string' ? item.reason : null);
+    }
+    if (typeof item.data === 'string' && item.data.startsWith('0x') && item.data.length >= 10) {
+      const decoded = decodeRevertData(item.data);
+      if (decoded) {
+        return classifyRevert(decoded.name, decoded.reason);
+      }
+    }
+  }
+
+  for (const item of chain) {
+    if (isError(item, 'ACTION_REJECTED')) return { code: 'USER_REJECTED' };
+    if (isError(item, 'INSUFFICIENT_FUNDS')) return { code: 'INSUFFICIENT_GAS_FUNDS' };
+    if (isError(item, 'NONCE_EXPIRED') || isError(item, 'REPLACEMENT_UNDERPRICED')) return { code: 'NONCE_ERROR' };
+    if (isError(item, 'TRANSACTION_REPLACED')) {
+      // A repriced replacement only fails if it reverted itself; see `waitForConfirmation`
+      return item.cancelled ? { code: 'TRANSACTION_DROPPED' } : { code: 'CONTRACT_REVERTED', errorName: null };
+    }
+    if (isError(item, 'NETWORK_ERROR') || isError(item, 'TIMEOUT')) return { code: 'NETWORK_ERROR' };
+    if (isError(item, 'SERVER_ERROR')) {
+      return item.response?.statusCode === 429 ? { code: 'RATE_LIMITED' } : { code: 'NETWORK_ERROR' };
+    }
+    if (isError(item, 'CALL_EXCEPTION')) {
+      return classifyRevert(null, typeof item.reason === 'string' ? item.reason : null);
+    }
+    if (item.name === 'HttpRequestError' && item.status === 429) return { code: 'RATE_LIMITED' };
+    if (typeof item.name === 'string' && CLIENT_ERROR_NAMES[item.name]) {
+      return { code: CLIENT_ERROR_NAMES[item.name] } as DepositError;
+    }
+    if (typeof item.code === 'number' && RPC_ERROR_CODES[item.code]) {
+      return { code: RPC_ERROR_CODES[item.code] } as DepositError;
+    }
+  }
+
+  return { code: 'UNKNOWN' };
+}
+
+/**
+ * Wrap a caught error into a DepositPoolError, preserving the original as `cause`
+ */
+export function toDepositPoolError(error: unknown): DepositPoolError {
+  if (error instanceof DepositPoolError) {
+    return error;
+  }
+  return new DepositPoolError(classifyError(error), { cause: error });
+}
+
+/**
+ * User-facing message for a deposit error
+ * @param error - The typed deposit error
+ * @param token - Deposit token, used to format amounts; messages stay generic without it
+ * @param t - Message catalog of the active locale (English by default)
+ */
+export function describeDepositError(
+  error: DepositError,
+  token: TokenMetadata | null = null,
+  t: Messages = MESSAGES[DEFAULT_LOCALE]
+): string {
+  const messages = t.errors;
+  switch (error.code) {
+    case 'NAME_NOT_RESOLVED':
+      return messages.NAME_NOT_RESOLVED(error.name);
+    case 'INSUFFICIENT_TOKEN_BALANCE':
+      return messages.INSUFFICIENT_TOKEN_BALANCE(
+        token?.symbol ?? t.common.token,
+        error.required !== undefined && token ? formatTokenAmount(error.required, token, t.locale) : null
+      );
+    case 'INSUFFICIENT_ALLOWANCE':
+      return messages.INSUFFICIENT_ALLOWANCE(token?.symbol ?? null);
+    case 'ALLOWANCE_RESET_REQUIRED':
+      return messages.ALLOWANCE_RESET_REQUIRED(token ? formatTokenAmount(error.currentAllowance, token, t.locale) : null);
+    case 'COURSE_NOT_FINALIZED':
+      return messages.COURSE_NOT_FINALIZED(
+        error.finalizedTime !== undefined ? formatDateTime(Number(error.finalizedTime), t.locale) : null
+      );
+    case 'CONTRACT_REVERTED':
+      return messages.CONTRACT_REVERTED(error.errorName);
+    default:
+      return messages[error.code];
+  }
+}
@@ -0,0 +1,155 @@
+import { erc20Abi, getAbiItem } from 'viem';
+import { getPublicClient } from '@wagmi/core';
+import { SecurityDepositPool__factory } from './abi';
+import { config } from './config';
+import { Deployment } from './deployments';
+import { DepositPoolError, toDepositPoolError } from './errors';
+import { LOG_CHUNK_SIZE } from './logScan';
+
+/**
+ * Per-wallet history of approvals, deposits, refunds and slashes, rebuilt from
+ * the token's `Approval`/`Transfer` logs and the pool's events.
+ *
+ * Logs are scanned backwards from the latest block in chunks, since most RPC
+ * providers cap the block range of `eth_getLogs`.
+ */
+
+export type HistoryEntryKind = 'approval' | 'deposit' | 'refund' | 'slash';
+
+export interface HistoryEntry {
+  kind: HistoryEntryKind;
+  transactionHash: `0x${string}`;
+  status: 'pending' | 'confirmed';
+  // Null for pending transactions
+  blockNumber: bigint | null;
+  // Unix seconds (submission time for pending transactions)
+  timestamp: number | null;
+  amount: bigint | null;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  // Lowest block scanned by this page
+  fromBlock: bigint;
+  // Where the next (older) page starts, or null once the deployment block is reached
+  nextToBlock: bigint | null;
+}
+
+// Empty chunks scanned before a page is returned anyway
+const MAX_CHUNKS_PER_PAGE = 10;
+
+// Organizer batch events list their students in the data, so they cannot be filtered by wallet
+const BATCH_EVENTS = [
+  getAbiItem({ abi: SecurityDepositPool__factory.abi, name: 'WithdrawnMany' }),
+  getAbiItem({ abi: SecurityDepositPool__factory.abi, name: 'SlashedMany' }),
+];
+
+function toConfirmedEntry(
+  kind: HistoryEntryKind,
+  log: { transactionHash: `0x${string}`; blockNumber: bigint },
+  amount: bigint | null | undefined
+): Omit<HistoryEntry, 'timestamp'> {
+  return { kind, transactionHash: log.transactionHash, status: 'confirmed', blockNumber: log.blockNumber, amount: amount ?? null };
+}
+
+/**
+ * Fetch one page of a wallet's history, newest first
+ * @param deployment - Pool deployment
+ * @param address - Wallet address
+ * @param toBlock - Highest block to scan; the latest block when null
+ * @returns Promise<HistoryPage> - Entries found, and where the next page starts
+ * @throws DepositPoolError with the classified error
+ */
+export async function fetchHistoryPage(
+  deployment: Deployment,
+  address: `0x${string}`,
+  toBlock: bigint | null
+): Promise<HistoryPage> {
+  try {
+    const publicClient = getPublicClient(config, { chainId: deployment.chainId });
+    if (!publicClient) {
+      throw new DepositPoolError({ code: 'UNSUPPORTED_CHAIN' });
+    }
+
+    const pool = { address: deployment.poolAddress, abi: SecurityDepositPool__factory.abi } as const;
+    const token = { address: deployment.tokenAddress, abi: erc20Abi } as const;
+    const normalized = address.toLowerCase();
+
+    let chunkTo = toBlock ?? await publicClient.getBlockNumber();
+    let chunkFrom = chunkTo;
+    const entries: Omit<HistoryEntry, 'timestamp'>[] = [];
+
+    for (let chunk = 0; chunk < MAX_CHUNKS_PER_PAGE && chunkTo >= deployment.startBlock; chunk++) {
+      chunkFrom = chunkTo - LOG_CHUNK_SIZE + BigInt(1) > deployment.startBlock
+        ? chunkTo - LOG_CHUNK_SIZE + BigInt(1)
+        : deployment.startBlock;
+      const range = { fromBlock: chunkFrom, toBlock: chunkTo };
+
+      const [approvals, refundTransfers, deposits, withdrawals, batchEvents] = await Promise.all([
+        publicClient.getContractEvents({
+          ...token,
+          ...range,
+          eventName: 'Approval',
+          args: { owner: address, spender: deployment.poolAddress },
+        }),
+        publicClient.getContractEvents({
+          ...token,
+          ...range,
+          eventName: 'Transfer',
+          args: { from: deployment.poolAddress, to: address },
+        }),
+        publicClient.getContractEvents({ ...pool, ...range, eventName: 'Deposited', args: { student: address } }),
+        publicClient.getContractEvents({ ...pool, ...range, eventName: 'Withdrawn', args: { student: address } }),
+        // Only the batch events; their students are matched below
+        publicClient.getLogs({ address: deployment.poolAddress, events: BATCH_EVENTS, ...range, strict: true }),
+      ]);
+
+      // Refunds only emit the student; the amount comes from the token transfer in the same transaction
+      const refundAmounts = new Map(refundTransfers.map((log) => [log.transactionHash, log.args.value ?? null]));
+
+      for (const log of approvals) {
+        entries.push(toConfirmedEntry('approval', log, log.args.value));
+      }
+      for (const log of deposits) {
+        entries.push(toConfirmedEntry('deposit', log, log.args.amount));
+      }
+      for (const log of withdrawals) {
+        entries.push(toConfirmedEntry('refund', log, refundAmounts.get(log.transactionHash)));
+      }
+      for (const log of batchEvents) {
+        if (log.eventName === 'WithdrawnMany' && log.args.students.some((item) => item.toLowerCase() === normalized)) {
+          entries.push(toConfirmedEntry('refund', log, refundAmounts.get(log.transactionHash)));
+        }
+        if (log.eventName === 'SlashedMany') {
+          const index = log.args.students.findIndex((item) => item.toLowerCase() === normalized);
+          if (index >= 0) {
+            entries.push(toConfirmedEntry('slash', log, log.args.amounts[index]));
+          }
+        }
+      }
+
+      chunkTo = chunkFrom - BigInt(1);
+      if (entries.length > 0) {
+        break;
+      }
+    }
+
+    // Block timestamps, read once per block
+    const blockNumbers = entries
+      .map((entry) => entry.blockNumber as bigint)
+      .filter((blockNumber, index, all) => all.indexOf(blockNumber) === index);
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+    const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+    return {
+      entries: entries
+        .map((entry) => ({ ...entry, timestamp: timestamps.get(entry.blockNumber as bigint) ?? null }))
+        .sort((a, b) => Number((b.blockNumber as bigint) - (a.blockNumber as bigint))),
+      fromBlock: chunkFrom,
+      nextToBlock: chunkTo >= deployment.startBlock ? chunkTo : null,
+    };
+  } catch (error) {
+    console.error('Error fetching transaction history:', error);
+    throw toDepositPoolError(error);
+  }
+}
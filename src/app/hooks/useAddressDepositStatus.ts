@@ -0,0 +1,41 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { createReadOnlyContractUtils, DepositStatus } from '../contracts';
+import { Deployment } from '../deployments';
+import { classifyError, DepositError } from '../errors';
+
+export interface AddressDepositStatus {
+  status: DepositStatus | null;
+  isLoading: boolean;
+  error: DepositError | null;
+  refresh: () => void;
+}
+
+/**
+ * Reads the deposit status of any address without a connected wallet
+ * @param deployment - Pool deployment
+ * @param address - Address to look up; nothing is read without one
+ */
+export function useAddressDepositStatus(
+  deployment: Deployment,
+  address: `0x${string}` | null
+): AddressDepositStatus {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['addressDepositStatus', deployment.chainId, deployment.poolAddress, address],
+    queryFn: async () => {
+      const contractUtils = await createReadOnlyContractUtils(deployment);
+      return contractUtils.getDepositStatus(address as `0x${string}`);
+    },
+    enabled: !!address,
+  });
+
+  return {
+    status: data ?? null,
+    isLoading,
+    error: error ? classifyError(error) : null,
+    refresh: () => {
+      refetch();
+    },
+  };
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { ResolvedAddress, resolveLookupAddress } from '../addressLookup';
+import { classifyError, DepositError } from '../errors';
+
+export interface AddressLookup {
+  resolved: ResolvedAddress | null;
+  isLoading: boolean;
+  error: DepositError | null;
+}
+
+/**
+ * Resolves a 0x address, ENS name or Basename typed into the status lookup
+ * @param input - Lookup input; nothing is resolved while it is empty
+ */
+export function useAddressLookup(input: string): AddressLookup {
+  const trimmed = input.trim();
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['addressLookup', trimmed.toLowerCase()],
+    queryFn: () => resolveLookupAddress(trimmed),
+    enabled: trimmed.length > 0,
+    // Invalid input and unknown names will not change on retry
+    retry: false,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    resolved: data ?? null,
+    isLoading,
+    error: error ? classifyError(error) : null,
+  };
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { AllowlistError, fetchAllowlist } from '../allowlist';
+import { CONFIG_ISSUES, ConfigIssue, RUNTIME_CONFIG } from '../configSchema';
+import { createReadOnlyContractUtils } from '../contracts';
+import { Deployment, DEPLOYMENTS } from '../deployments';
+import { classifyError, DepositError } from '../errors';
+
+export interface ConfigDiagnostics {
+  // Format problems first, then anything the on-chain checks found
+  issues: ConfigIssue[];
+  // On-chain checks still running
+  isChecking: boolean;
+  // The chain could not be read, so the on-chain checks are incomplete
+  error: DepositError | null;
+  refresh: () => void;
+}
+
+/**
+ * Load a deployment's allowlist, reporting a malformed file or a wrong Merkle root.
+ * Network failures are thrown, like those of the on-chain checks.
+ */
+async function checkAllowlist(deployment: Deployment): Promise<ConfigIssue[]> {
+  if (!deployment.allowlist) {
+    return [];
+  }
+  try {
+    await fetchAllowlist(deployment.allowlist);
+    return [];
+  } catch (error) {
+    if (!(error instanceof AllowlistError)) {
+      throw error;
+    }
+    return [{
+      variable: RUNTIME_CONFIG.sources[deployment.id]?.allowlistUrl ?? 'allowlistUrl',
+      code: 'invalid-allowlist',
+      value: deployment.allowlist.url,
+      detail: error.message,
+    }];
+  }
+}
+
+/**
+ * Validation result of the configuration. Once every variable is well-formed, each
+ * deployment is checked on-chain once per session (see `checkDeployment`), and its
+ * allowlist, if any, is loaded.
+ */
+export function useConfigDiagnostics(): ConfigDiagnostics {
+  const isWellFormed = CONFIG_ISSUES.length === 0;
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['configDiagnostics', DEPLOYMENTS.map((item) => item.id)],
+    queryFn: async () => {
+      const results = await Promise.all(
+        DEPLOYMENTS.map(async (deployment) => [
+          ...(await (await createReadOnlyContractUtils(deployment)).checkDeployment()),
+          ...(await checkAllowlist(deployment)),
+        ])
+      );
+      return results.flat();
+    },
+    enabled: isWellFormed,
+    staleTime: Infinity,
+  });
+
+  return {
+    issues: [...CONFIG_ISSUES, ...(data ?? [])],
+    isChecking: isWellFormed && isLoading,
+    error: error ? classifyError(error) : null,
+    refresh: () => {
+      refetch();
+    },
+  };
+}
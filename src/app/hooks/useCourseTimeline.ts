@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useReadContract } from 'wagmi';
+import { SecurityDepositPool__factory } from '../abi';
+import { ACTIVE_DEPLOYMENT, Deployment } from '../deployments';
+
+export type CoursePhase = 'before-course' | 'in-progress' | 'finalized';
+
+export interface CourseTimeline {
+  courseStartTime: number | null;
+  courseFinalizedTime: number | null;
+  // Current unix time in seconds, ticking every second (null before mount)
+  now: number | null;
+  phase: CoursePhase | null;
+  secondsUntilFinalized: number | null;
+  isError: boolean;
+}
+
+/**
+ * Course phase at a point in time
+ * @param courseFinalizedTime - On-chain finalization time (unix seconds)
+ * @param courseStartTime - Configured course start (unix seconds), if known
+ * @param now - Current unix time in seconds
+ */
+export function getCoursePhase(
+  courseFinalizedTime: number,
+  courseStartTime: number | null,
+  now: number
+): CoursePhase {
+  if (now >= courseFinalizedTime) {
+    return 'finalized';
+  }
+  if (courseStartTime !== null && now < courseStartTime) {
+    return 'before-course';
+  }
+  return 'in-progress';
+}
+
+/**
+ * Reads the pool's course finalization time and derives the current course phase.
+ * The on-chain value is re-read every 30 seconds so the timeline follows any change,
+ * while the local clock ticks every second to drive the countdown.
+ * @param deployment - Pool deployment to read (defaults to the active deployment)
+ */
+export function useCourseTimeline(deployment: Deployment = ACTIVE_DEPLOYMENT): CourseTimeline {
+  const { data, isError } = useReadContract({
+    address: deployment.poolAddress,
+    abi: SecurityDepositPool__factory.abi,
+    functionName: 'courseFinalizedTime',
+    chainId: deployment.chainId,
+    query: {
+      refetchInterval: 30000, // 30 seconds
+    },
+  });
+
+  // Only start the clock on the client to avoid hydration mismatches
+  const [now, setNow] = useState<number | null>(null);
+  useEffect(() => {
+    setNow(Math.floor(Date.now() / 1000));
+    const interval = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const courseFinalizedTime = data === undefined ? null : Number(data);
+
+  const phase = courseFinalizedTime !== null && now !== null
+    ? getCoursePhase(courseFinalizedTime, deployment.courseStartTime, now)
+    : null;
+
+  return {
+    courseStartTime: deployment.courseStartTime,
+    courseFinalizedTime,
+    now,
+    phase,
+    secondsUntilFinalized:
+      courseFinalizedTime !== null && now !== null ? Math.max(courseFinalizedTime - now, 0) : null,
+    isError,
+  };
+}
@@ -0,0 +1,501 @@
+'use client';
+
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { useAccount, useChainId, useWatchContractEvent } from 'wagmi';
+import { erc20Abi } from 'viem';
+import { SecurityDepositPool__factory } from '../abi';
+import {
+  createContractUtils,
+  createReadOnlyContractUtils,
+  sendApproveAndDepositBatch,
+  supportsAtomicBatch,
+  waitForCallsBatch,
+  waitForConfirmation,
+} from '../contracts';
+import { classifyError, DepositError, DepositPoolError } from '../errors';
+import { ACTIVE_DEPLOYMENT, Deployment } from '../deployments';
+import {
+  canApprove,
+  canDeposit,
+  canResetAllowance,
+  canWithdraw,
+  DepositFlowEvent,
+  depositFlowReducer,
+  initialDepositFlowState,
+} from '../depositFlow';
+import {
+  clearPendingTransaction,
+  loadPendingTransaction,
+  PendingTransaction,
+  savePendingTransaction,
+} from '../pendingTransactions';
+
+// Outcome events of a transaction that was resumed after a page reload
+function resumedOutcomeEvent(
+  transaction: PendingTransaction,
+  address: string,
+  error: DepositError | null,
+  transactionHash: string | null = null
+): DepositFlowEvent {
+  switch (transaction.kind) {
+    case 'reset-allowance':
+      return error
+        ? { type: 'ALLOWANCE_RESET_FAILED', address, error }
+        : { type: 'ALLOWANCE_RESET_SUCCEEDED', address };
+    case 'approve':
+      return error
+        ? { type: 'APPROVE_FAILED', address, error }
+        : { type: 'APPROVE_SUCCEEDED', address };
+    case 'deposit':
+      return error
+        ? { type: 'DEPOSIT_FAILED', address, error }
+        : { type: 'DEPOSIT_SUCCEEDED', address, amount: BigInt(transaction.amount ?? 0), transactionHash: transaction.hash };
+    case 'batch':
+      return error
+        ? { type: 'BATCH_FAILED', address, error }
+        : { type: 'BATCH_SUCCEEDED', address, amount: BigInt(transaction.amount ?? 0), transactionHash };
+    case 'withdraw':
+      return error
+        ? { type: 'WITHDRAW_FAILED', address, error }
+        : { type: 'WITHDRAW_SUCCEEDED', address };
+  }
+}
+
+// Whether a pool event changes the deposit of the given student
+function isPoolEventForStudent(
+  log: { eventName?: string; args?: { student?: string; students?: readonly string[]; [name: string]: unknown } },
+  student: string
+): boolean {
+  const normalized = student.toLowerCase();
+  switch (log.eventName) {
+    case 'Deposited':
+    case 'Withdrawn':
+      return log.args?.student?.toLowerCase() === normalized;
+    case 'WithdrawnMany':
+    case 'SlashedMany':
+      return log.args?.students?.some((item) => item.toLowerCase() === normalized) ?? false;
+    default:
+      return false;
+  }
+}
+
+// Keep the hash on network errors, since the transaction may still be mined
+function forgetPendingTransaction(deployment: Deployment, address: string, error: DepositError) {
+  if (error.code !== 'NETWORK_ERROR') {
+    clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+  }
+}
+
+/**
+ * Drives the deposit flow state machine for the connected wallet:
+ * tracks connection, account and network changes, re-reads the on-chain
+ * status when the pool or the token emits an event for the wallet and runs
+ * the approve, deposit and refund transactions. Status polling every 30 seconds
+ * is only used as a fallback when the events cannot be watched.
+ * Submitted transactions are persisted per wallet and pool, and resumed after a reload.
+ * Wallets that support EIP-5792 can approve and deposit in one atomic batch.
+ * @param deployment - Pool deployment to drive (defaults to the active deployment)
+ */
+export function useDepositFlow(deployment: Deployment = ACTIVE_DEPLOYMENT) {
+  const { isConnected, address } = useAccount();
+  const chainId = useChainId();
+  const isCorrectNetwork = chainId === deployment.chainId;
+  const [state, dispatch] = useReducer(depositFlowReducer, initialDepositFlowState);
+  const retryCountRef = useRef(0);
+  const [isBatchAvailable, setIsBatchAvailable] = useState(false);
+  const [isEventWatchFailed, setIsEventWatchFailed] = useState(false);
+  const isWatching = isConnected && !!address && isCorrectNetwork;
+
+  // Connect, disconnect, account change and network switch
+  useEffect(() => {
+    if (isConnected && address) {
+      dispatch({ type: 'WALLET_CONNECTED', address, isCorrectNetwork });
+    } else {
+      dispatch({ type: 'WALLET_DISCONNECTED' });
+    }
+  }, [deployment, isConnected, address, isCorrectNetwork]);
+
+  // Re-attach to a transaction that was still pending when the page was left
+  useEffect(() => {
+    if (!isConnected || !address || !isCorrectNetwork) {
+      return;
+    }
+
+    const pendingTransaction = loadPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+    if (!pendingTransaction) {
+      return;
+    }
+
+    dispatch({ type: 'TRANSACTION_RESUMED', address, kind: pendingTransaction.kind });
+    (async () => {
+      try {
+        let batchTransactionHash: string | null = null;
+        if (pendingTransaction.kind === 'batch') {
+          batchTransactionHash = await waitForCallsBatch(pendingTransaction.hash);
+        } else {
+          const contractUtils = await createReadOnlyContractUtils(deployment);
+          await contractUtils.waitForTransaction(pendingTransaction.hash as `0x${string}`);
+        }
+        clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+        dispatch(resumedOutcomeEvent(pendingTransaction, address, null, batchTransactionHash));
+      } catch (error) {
+        console.error('Resumed transaction failed:', error);
+        const depositError = classifyError(error);
+        forgetPendingTransaction(deployment, address, depositError);
+        dispatch(resumedOutcomeEvent(pendingTransaction, address, depositError));
+      }
+    })();
+  }, [deployment, isConnected, address, isCorrectNetwork]);
+
+  // Detect wallet support for atomic approve + deposit batches
+  useEffect(() => {
+    if (!isConnected || !address || !isCorrectNetwork) {
+      setIsBatchAvailable(false);
+      return;
+    }
+
+    let isCancelled = false;
+    supportsAtomicBatch(deployment).then((isSupported) => {
+      if (!isCancelled) setIsBatchAvailable(isSupported);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [deployment, isConnected, address, isCorrectNetwork]);
+
+  // Read deposit, allowance and refund status for a wallet
+  const checkStatus = useCallback(async (userAddress: `0x${string}`, isRetry = false) => {
+    try {
+      const contractUtils = await createReadOnlyContractUtils(deployment);
+      const status = await contractUtils.getDepositStatus(userAddress);
+
+      if (status.hasDeposited) {
+        // Once deposited, track whether the refund can be claimed
+        dispatch({
+          type: 'STATUS_LOADED',
+          address: userAddress,
+          hasDeposited: true,
+          remainingDeposit: status.remainingDeposit,
+        });
+      } else {
+        // Check if current allowance is sufficient for deposit, or has to be reset before approving
+        const needsReset = await contractUtils.requiresAllowanceReset(
+          userAddress,
+          status.allowance,
+          status.flatDepositAmount
+        );
+        dispatch({
+          type: 'STATUS_LOADED',
+          address: userAddress,
+          hasDeposited: false,
+          isApproved: status.allowance >= status.flatDepositAmount,
+          allowanceToReset: needsReset ? status.allowance : null,
+        });
+      }
+
+      // Reset retry count on successful check
+      retryCountRef.current = 0;
+    } catch (error) {
+      console.error('Error checking deposit status:', error);
+      const depositError = classifyError(error);
+      dispatch({ type: 'STATUS_FAILED', address: userAddress, error: depositError });
+
+      // Implement exponential backoff for network errors
+      if (depositError.code === 'NETWORK_ERROR' && !isRetry && retryCountRef.current < 3) {
+        const backoffDelay = Math.pow(2, retryCountRef.current) * 1000; // 1s, 2s, 4s
+        setTimeout(() => {
+          retryCountRef.current += 1;
+          checkStatus(userAddress, true);
+        }, backoffDelay);
+      }
+    }
+  }, [deployment]);
+
+  // Read the status once when connected to the right network; events drive later updates
+  useEffect(() => {
+    if (!isConnected || !address || !isCorrectNetwork) {
+      return;
+    }
+
+    checkStatus(address);
+  }, [isConnected, address, isCorrectNetwork, checkStatus]);
+
+  // Give event watching another chance after a wallet or pool change
+  useEffect(() => {
+    setIsEventWatchFailed(false);
+  }, [deployment, address]);
+
+  const handleWatchError = useCallback((error: Error) => {
+    console.error('Error watching contract events:', error);
+    setIsEventWatchFailed(true);
+  }, []);
+
+  // Deposits, refunds and slashes of this wallet
+  useWatchContractEvent({
+    address: deployment.poolAddress,
+    abi: SecurityDepositPool__factory.abi,
+    chainId: deployment.chainId,
+    enabled: isWatching && !isEventWatchFailed,
+    onLogs: (logs) => {
+      if (address && logs.some((log) => isPoolEventForStudent(log, address))) {
+        checkStatus(address);
+      }
+    },
+    onError: handleWatchError,
+  });
+
+  // Allowance changes of this wallet for the pool
+  useWatchContractEvent({
+    address: deployment.tokenAddress,
+    abi: erc20Abi,
+    eventName: 'Approval',
+    args: { owner: address, spender: deployment.poolAddress },
+    chainId: deployment.chainId,
+    enabled: isWatching && !isEventWatchFailed,
+    onLogs: () => {
+      if (address) {
+        checkStatus(address);
+      }
+    },
+    onError: handleWatchError,
+  });
+
+  // Fallback: poll the deposit status every 30 seconds when events cannot be watched
+  useEffect(() => {
+    if (!isConnected || !address || !isCorrectNetwork || !isEventWatchFailed) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      checkStatus(address);
+    }, 30000); // 30 seconds
+
+    return () => clearInterval(interval);
+  }, [isConnected, address, isCorrectNetwork, isEventWatchFailed, checkStatus]);
+
+  // Handle the allowance reset (approve 0) that USDT-style tokens need before a new approval
+  const resetAllowance = useCallback(async () => {
+    if (!address || !canResetAllowance(state.step)) return;
+
+    dispatch({ type: 'ALLOWANCE_RESET_STARTED', address });
+    try {
+      const contractUtils = await createContractUtils(deployment);
+
+      const resetTx = await contractUtils.resetUSDTAllowance();
+      savePendingTransaction(deployment.chainId, deployment.poolAddress, address, {
+        kind: 'reset-allowance',
+        hash: resetTx.hash,
+        submittedAt: Date.now(),
+      });
+      await waitForConfirmation(resetTx);
+
+      clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+      dispatch({ type: 'ALLOWANCE_RESET_SUCCEEDED', address });
+    } catch (error) {
+      console.error('Allowance reset transaction failed:', error);
+      const depositError = classifyError(error);
+      forgetPendingTransaction(deployment, address, depositError);
+      dispatch({ type: 'ALLOWANCE_RESET_FAILED', address, error: depositError });
+    }
+  }, [deployment, address, state.step]);
+
+  // Handle USDT approval transaction. Always approves exactly the deposit amount;
+  // an existing allowance that already covers it is used as-is (the status check marks it approved).
+  const approve = useCallback(async () => {
+    if (!address || !canApprove(state.step)) return;
+
+    dispatch({ type: 'APPROVE_STARTED', address });
+    try {
+      const contractUtils = await createContractUtils(deployment);
+
+      // Get the required deposit amount and check the user's USDT balance before attempting approval
+      const { flatDepositAmount: depositAmount, allowance, balance } = await contractUtils.getDepositStatus(address);
+      if (balance < depositAmount) {
+        throw new DepositPoolError({ code: 'INSUFFICIENT_TOKEN_BALANCE', required: depositAmount });
+      }
+
+      // A stale partial allowance may have to be cleared in a separate transaction first
+      if (await contractUtils.requiresAllowanceReset(address, allowance, depositAmount)) {
+        throw new DepositPoolError({ code: 'ALLOWANCE_RESET_REQUIRED', currentAllowance: allowance });
+      }
+
+      // Initiate USDT approval transaction and wait for confirmation
+      const approveTx = await contractUtils.approveUSDT(depositAmount);
+      savePendingTransaction(deployment.chainId, deployment.poolAddress, address, {
+        kind: 'approve',
+        hash: approveTx.hash,
+        submittedAt: Date.now(),
+      });
+      await waitForConfirmation(approveTx);
+
+      clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+      dispatch({ type: 'APPROVE_SUCCEEDED', address });
+    } catch (error) {
+      console.error('Approval transaction failed:', error);
+      const depositError = classifyError(error);
+      forgetPendingTransaction(deployment, address, depositError);
+      dispatch({ type: 'APPROVE_FAILED', address, error: depositError });
+    }
+  }, [deployment, address, state.step]);
+
+  // Handle deposit transaction
+  const deposit = useCallback(async () => {
+    if (!address || !canDeposit(state.step)) return;
+
+    dispatch({ type: 'DEPOSIT_STARTED', address });
+    try {
+      const contractUtils = await createContractUtils(deployment);
+
+      // Double-check approval status and the user's USDT balance before deposit
+      const { flatDepositAmount: depositAmount, allowance, balance } = await contractUtils.getDepositStatus(address);
+      if (allowance < depositAmount) {
+        throw new DepositPoolError({ code: 'INSUFFICIENT_ALLOWANCE' });
+      }
+      if (balance < depositAmount) {
+        throw new DepositPoolError({ code: 'INSUFFICIENT_TOKEN_BALANCE', required: depositAmount });
+      }
+
+      // Call the deposit function and wait for on-chain confirmation
+      const depositTx = await contractUtils.deposit();
+      savePendingTransaction(deployment.chainId, deployment.poolAddress, address, {
+        kind: 'deposit',
+        hash: depositTx.hash,
+        amount: depositAmount.toString(),
+        submittedAt: Date.now(),
+      });
+      const depositTransactionHash = await waitForConfirmation(depositTx);
+
+      clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+      dispatch({ type: 'DEPOSIT_SUCCEEDED', address, amount: depositAmount, transactionHash: depositTransactionHash });
+    } catch (error) {
+      console.error('Deposit transaction failed:', error);
+      const depositError = classifyError(error);
+      forgetPendingTransaction(deployment, address, depositError);
+      dispatch({ type: 'DEPOSIT_FAILED', address, error: depositError });
+    }
+  }, [deployment, address, state.step]);
+
+  // Handle refund (withdraw) transaction after course finalization
+  const withdraw = useCallback(async () => {
+    if (!address || !canWithdraw(state.step)) return;
+
+    dispatch({ type: 'WITHDRAW_STARTED', address });
+    try {
+      const contractUtils = await createContractUtils(deployment);
+
+      // Double-check that the course is finalized before prompting the wallet
+      const finalizedTime = await contractUtils.getCourseFinalizedTime();
+      if (BigInt(Math.floor(Date.now() / 1000)) < finalizedTime) {
+        throw new DepositPoolError({ code: 'COURSE_NOT_FINALIZED', finalizedTime });
+      }
+
+      // Call the withdraw function and wait for on-chain confirmation
+      const withdrawTx = await contractUtils.withdraw();
+      savePendingTransaction(deployment.chainId, deployment.poolAddress, address, {
+        kind: 'withdraw',
+        hash: withdrawTx.hash,
+        submittedAt: Date.now(),
+      });
+      await waitForConfirmation(withdrawTx);
+
+      clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+      dispatch({ type: 'WITHDRAW_SUCCEEDED', address });
+    } catch (error) {
+      console.error('Refund transaction failed:', error);
+      const depositError = classifyError(error);
+      forgetPendingTransaction(deployment, address, depositError);
+      dispatch({ type: 'WITHDRAW_FAILED', address, error: depositError });
+    }
+  }, [deployment, address, state.step]);
+
+  // Handle approve + deposit as one atomic batch (EIP-5792)
+  const approveAndDeposit = useCallback(async () => {
+    if (!address || !canApprove(state.step)) return;
+
+    dispatch({ type: 'BATCH_STARTED', address });
+    try {
+      const contractUtils = await createReadOnlyContractUtils(deployment);
+
+      // Get the required deposit amount and check the user's USDT balance before prompting the wallet
+      const { flatDepositAmount: depositAmount, allowance, balance } = await contractUtils.getDepositStatus(address);
+      if (balance < depositAmount) {
+        throw new DepositPoolError({ code: 'INSUFFICIENT_TOKEN_BALANCE', required: depositAmount });
+      }
+
+      // The approve call in the batch would revert on a stale partial allowance
+      if (await contractUtils.requiresAllowanceReset(address, allowance, depositAmount)) {
+        throw new DepositPoolError({ code: 'ALLOWANCE_RESET_REQUIRED', currentAllowance: allowance });
+      }
+
+      // Send both calls and wait until the wallet reports the batch as mined
+      const batchId = await sendApproveAndDepositBatch(depositAmount, deployment);
+      savePendingTransaction(deployment.chainId, deployment.poolAddress, address, {
+        kind: 'batch',
+        hash: batchId,
+        amount: depositAmount.toString(),
+        submittedAt: Date.now(),
+      });
+      const transactionHash = await waitForCallsBatch(batchId);
+
+      clearPendingTransaction(deployment.chainId, deployment.poolAddress, address);
+      dispatch({ type: 'BATCH_SUCCEEDED', address, amount: depositAmount, transactionHash });
+    } catch (error) {
+      console.error('Approve and deposit batch failed:', error);
+      const depositError = classifyError(error);
+      forgetPendingTransaction(deployment, address, depositError);
+      if (depositError.code === 'BATCH_UNSUPPORTED') {
+        // Fall back to the two-step flow from now on
+        setIsBatchAvailable(false);
+      }
+      dispatch({ type: 'BATCH_FAILED', address, error: depositError });
+    }
+  }, [deployment, address, state.step]);
+
+  // Retry the failed transaction
+  const retry = useCallback(() => {
+    switch (state.step.name) {
+      case 'allowance-reset-failed':
+        resetAllowance();
+        break;
+      case 'approval-failed':
+        if (isBatchAvailable) {
+          approveAndDeposit();
+        } else {
+          approve();
+        }
+        break;
+      case 'deposit-failed':
+        deposit();
+        break;
+      case 'withdraw-failed':
+        withdraw();
+        break;
+    }
+  }, [state.step.name, isBatchAvailable, resetAllowance, approve, approveAndDeposit, deposit, withdraw]);
+
+  // Manual retry for the status check
+  const retryStatusCheck = useCallback(() => {
+    if (!address) return;
+    retryCountRef.current = 0;
+    dispatch({ type: 'STATUS_REQUESTED', address });
+    checkStatus(address);
+  }, [address, checkStatus]);
+
+  const dismissError = useCallback(() => {
+    dispatch({ type: 'ERROR_DISMISSED' });
+  }, []);
+
+  return {
+    state,
+    canRetry: ['allowance-reset-failed', 'approval-failed', 'deposit-failed', 'withdraw-failed'].includes(state.step.name),
+    isBatchAvailable,
+    resetAllowance,
+    approve,
+    deposit,
+    approveAndDeposit,
+    withdraw,
+    retry,
+    retryStatusCheck,
+    dismissError,
+  };
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useBlockNumber } from 'wagmi';
+import { classifyError, DepositError } from '../errors';
+import { DepositReceipt, fetchDepositReceipt } from '../receipts';
+
+export interface DepositReceiptResult {
+  receipt: DepositReceipt | null;
+  // Null until both the receipt and the latest block are known
+  confirmations: bigint | null;
+  isLoading: boolean;
+  error: DepositError | null;
+}
+
+/**
+ * Loads the deposit made by a transaction and follows its confirmations block by block
+ * @param transactionHash - Deposit transaction hash
+ * @param chainId - Chain of the transaction, if known
+ */
+export function useDepositReceipt(transactionHash: `0x${string}`, chainId?: number): DepositReceiptResult {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['depositReceipt', transactionHash, chainId ?? null],
+    queryFn: () => fetchDepositReceipt(transactionHash, chainId),
+    // A mined receipt does not change
+    staleTime: Infinity,
+  });
+
+  const { data: blockNumber } = useBlockNumber({
+    chainId: data?.deployment.chainId,
+    watch: true,
+    query: {
+      enabled: !!data,
+    },
+  });
+
+  return {
+    receipt: data ?? null,
+    confirmations: data && blockNumber !== undefined ? blockNumber - data.blockNumber + BigInt(1) : null,
+    isLoading,
+    error: error ? classifyError(error) : null,
+  };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { erc20Abi } from 'viem';
+import { useReadContracts } from 'wagmi';
+import { SecurityDepositPool__factory } from '../abi';
+import { Deployment } from '../deployments';
+import { TokenMetadata } from '../token';
+
+export interface DepositToken {
+  // Null until symbol and decimals have been read
+  token: TokenMetadata | null;
+  depositAmount: bigint | null;
+}
+
+/**
+ * Reads the pool's deposit token metadata and flat deposit amount
+ * @param deployment - Pool deployment
+ */
+export function useDepositToken(deployment: Deployment): DepositToken {
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: deployment.tokenAddress, abi: erc20Abi, functionName: 'decimals', chainId: deployment.chainId },
+      { address: deployment.tokenAddress, abi: erc20Abi, functionName: 'symbol', chainId: deployment.chainId },
+      {
+        address: deployment.poolAddress,
+        abi: SecurityDepositPool__factory.abi,
+        functionName: 'flatDepositAmount',
+        chainId: deployment.chainId,
+      },
+    ],
+    query: {
+      // Neither the token nor the flat deposit amount change after deployment
+      staleTime: Infinity,
+    },
+  });
+
+  return {
+    token: data ? { decimals: data[0], symbol: data[1] } : null,
+    depositAmount: data ? data[2] : null,
+  };
+}
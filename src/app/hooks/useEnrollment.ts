@@ -0,0 +1,38 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { AllowlistError, allowlistQueryOptions, Enrollment, getEnrollment } from '../allowlist';
+import { Deployment } from '../deployments';
+import { classifyError, DepositError } from '../errors';
+
+export interface EnrollmentCheck {
+  // Null while the allowlist loads, or when no wallet is connected
+  enrollment: Enrollment | null;
+  isLoading: boolean;
+  error: DepositError | null;
+  refresh: () => void;
+}
+
+/**
+ * Whether a wallet is enrolled in the deployment's cohort, and its participant label
+ * @param deployment - Pool deployment; pools without an allowlist are open to every wallet
+ * @param address - Connected wallet
+ */
+export function useEnrollment(deployment: Deployment, address: `0x${string}` | undefined): EnrollmentCheck {
+  const { data, isLoading, error, refetch } = useQuery({
+    ...allowlistQueryOptions(deployment.allowlist ?? { url: '', merkleRoot: null }),
+    enabled: deployment.allowlist !== null,
+    // A malformed file will not fix itself on retry
+    retry: (failureCount, queryError) => !(queryError instanceof AllowlistError) && failureCount < 3,
+  });
+
+  const entries = deployment.allowlist === null ? null : data;
+  return {
+    enrollment: address && entries !== undefined ? getEnrollment(entries, address) : null,
+    isLoading: deployment.allowlist !== null && isLoading,
+    error: error instanceof AllowlistError ? { code: 'CONFIGURATION_ERROR' } : error ? classifyError(error) : null,
+    refresh: () => {
+      refetch();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { createReadOnlyContractUtils, FeeEstimate, TransactionKind } from '../contracts';
+import { Deployment } from '../deployments';
+
+export type FeeEstimates = Partial<Record<TransactionKind, FeeEstimate>>;
+
+/**
+ * Estimates the network fee of the next transactions and checks them against the wallet's native balance.
+ * Fees are re-estimated every 30 seconds and whenever `refreshKey` changes.
+ * While loading, or if estimation fails, no estimate is returned so nothing gets blocked.
+ * @param deployment - Pool deployment
+ * @param address - Wallet address; nothing is estimated without one
+ * @param kinds - Transactions to estimate
+ * @param approveAmount - Amount the approve transaction would approve
+ * @param refreshKey - Changing value (e.g. the flow step) that triggers a new estimate
+ */
+export function useFeeEstimates(
+  deployment: Deployment,
+  address: `0x${string}` | undefined,
+  kinds: TransactionKind[],
+  approveAmount: bigint | null,
+  refreshKey: string
+): FeeEstimates {
+  const { data } = useQuery({
+    queryKey: [
+      'feeEstimates',
+      deployment.chainId,
+      deployment.poolAddress,
+      address,
+      kinds,
+      approveAmount?.toString() ?? null,
+      refreshKey,
+    ],
+    queryFn: async (): Promise<FeeEstimates> => {
+      const utils = await createReadOnlyContractUtils(deployment);
+      const estimates = await Promise.all(
+        kinds.map((kind) => utils.estimateFee(address as `0x${string}`, kind, approveAmount ?? BigInt(0)))
+      );
+      return Object.fromEntries(kinds.map((kind, index) => [kind, estimates[index]]));
+    },
+    enabled: !!address && kinds.length > 0 && (!kinds.includes('approve') || approveAmount !== null),
+    refetchInterval: 30000, // 30 seconds
+  });
+
+  return data ?? {};
+}
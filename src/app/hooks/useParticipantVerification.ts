@@ -0,0 +1,48 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { createReadOnlyContractUtils } from '../contracts';
+import { Deployment } from '../deployments';
+import { classifyError, DepositError } from '../errors';
+import { Participant, VerifiedParticipant } from '../participants';
+
+export interface ParticipantVerification {
+  results: VerifiedParticipant[] | null;
+  isLoading: boolean;
+  error: DepositError | null;
+  refresh: () => void;
+}
+
+/**
+ * Checks whether every participant of a list has deposited, with one multicall
+ * @param deployment - Pool deployment
+ * @param participants - Participants to check; nothing is read while the list is empty
+ */
+export function useParticipantVerification(
+  deployment: Deployment,
+  participants: Participant[]
+): ParticipantVerification {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [
+      'participantVerification',
+      deployment.chainId,
+      deployment.poolAddress,
+      participants.map((participant) => participant.address),
+    ],
+    queryFn: async (): Promise<VerifiedParticipant[]> => {
+      const contractUtils = await createReadOnlyContractUtils(deployment);
+      const deposited = await contractUtils.hasDepositedMany(participants.map((participant) => participant.address));
+      return participants.map((participant, index) => ({ ...participant, hasDeposited: deposited[index] }));
+    },
+    enabled: participants.length > 0,
+  });
+
+  return {
+    results: data ?? null,
+    isLoading,
+    error: error ? classifyError(error) : null,
+    refresh: () => {
+      refetch();
+    },
+  };
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Deployment } from '../deployments';
+import { classifyError, DepositError } from '../errors';
+import { fetchPoolStats, PoolStats } from '../poolStats';
+
+export interface PoolStatsResult {
+  stats: PoolStats | null;
+  isLoading: boolean;
+  error: DepositError | null;
+  refresh: () => void;
+}
+
+/**
+ * Loads the pool's statistics. Only blocks mined since the last visit are scanned
+ * (see `poolStats`), and the result is reused for a minute within the session.
+ * @param deployment - Pool deployment
+ */
+export function usePoolStats(deployment: Deployment): PoolStatsResult {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['poolStats', deployment.chainId, deployment.poolAddress],
+    queryFn: () => fetchPoolStats(deployment),
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  return {
+    stats: data ?? null,
+    isLoading,
+    error: error ? classifyError(error) : null,
+    refresh: () => {
+      refetch();
+    },
+  };
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Deployment } from '../deployments';
+import { classifyError, DepositError } from '../errors';
+import { fetchHistoryPage, HistoryEntry, HistoryEntryKind } from '../history';
+import { loadPendingTransaction, PendingTransactionKind } from '../pendingTransactions';
+
+const PENDING_ENTRY_KINDS: Partial<Record<PendingTransactionKind, HistoryEntryKind>> = {
+  'reset-allowance': 'approval',
+  approve: 'approval',
+  deposit: 'deposit',
+  withdraw: 'refund',
+};
+
+export interface TransactionHistory {
+  entries: HistoryEntry[];
+  // Lowest block scanned so far
+  scannedFromBlock: bigint | null;
+  hasOlder: boolean;
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+  error: DepositError | null;
+  loadOlder: () => void;
+  refresh: () => void;
+}
+
+/**
+ * Paginated history of a wallet's actions on a pool, newest first.
+ * A transaction that is still pending (see `pendingTransactions`) is listed on top.
+ * @param deployment - Pool deployment
+ * @param address - Wallet address; nothing is loaded without one
+ */
+export function useTransactionHistory(deployment: Deployment, address: `0x${string}` | undefined): TransactionHistory {
+  const { data, error, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage, refetch } = useInfiniteQuery({
+    queryKey: ['transactionHistory', deployment.chainId, deployment.poolAddress, address],
+    queryFn: ({ pageParam }) => fetchHistoryPage(deployment, address as `0x${string}`, pageParam),
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextToBlock ?? undefined,
+    enabled: !!address,
+  });
+
+  const confirmedEntries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+  // Submitted from this browser but not mined yet (batches have no transaction hash to show)
+  const pendingTransaction = address
+    ? loadPendingTransaction(deployment.chainId, deployment.poolAddress, address)
+    : null;
+  const pendingKind = pendingTransaction ? PENDING_ENTRY_KINDS[pendingTransaction.kind] : undefined;
+  const pendingEntries: HistoryEntry[] = pendingTransaction && pendingKind &&
+    !confirmedEntries.some((entry) => entry.transactionHash === pendingTransaction.hash)
+    ? [{
+      kind: pendingKind,
+      transactionHash: pendingTransaction.hash as `0x${string}`,
+      status: 'pending',
+      blockNumber: null,
+      timestamp: Math.floor(pendingTransaction.submittedAt / 1000),
+      amount: pendingTransaction.amount ? BigInt(pendingTransaction.amount) : null,
+    }]
+    : [];
+
+  return {
+    entries: [...pendingEntries, ...confirmedEntries],
+    scannedFromBlock: data?.pages[data.pages.length - 1]?.fromBlock ?? null,
+    hasOlder: hasNextPage,
+    isLoading,
+    isLoadingOlder: isFetchingNextPage,
+    error: error ? classifyError(error) : null,
+    loadOlder: () => {
+      fetchNextPage();
+    },
+    refresh: () => {
+      refetch();
+    },
+  };
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { createSiweMessage } from 'viem/siwe';
+import { useAccount, useSignMessage } from 'wagmi';
+import { getSignInStatement, requestIdentityApi, SIGN_IN_MESSAGE_TTL_MS, WalletSession } from '../identity';
+import { queryClient } from '../queryClient';
+
+export interface WalletIdentity {
+  // Session of the connected wallet; null when signed out or signed in with another wallet
+  session: WalletSession | null;
+  isLoading: boolean;
+  isSigningIn: boolean;
+  error: Error | null;
+  /**
+   * Sign a SIWE message with the connected wallet
+   * @param handle - Course handle to link, or null to only sign in
+   */
+  signIn: (handle: string | null) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const SESSION_QUERY_KEY = ['walletSession'];
+
+/**
+ * Sign-In with Ethereum for the connected wallet, and the course handle it is linked to
+ */
+export function useWalletIdentity(): WalletIdentity {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [actionError, setActionError] = useState<Error | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: async () => (await requestIdentityApi<{ session: WalletSession | null }>('/api/auth/session')).session,
+    retry: false,
+  });
+
+  const signIn = async (handle: string | null) => {
+    if (!address || !chainId) return;
+    setIsSigningIn(true);
+    setActionError(null);
+    try {
+      const { nonce } = await requestIdentityApi<{ nonce: string }>('/api/auth/nonce');
+      const issuedAt = new Date();
+      const message = createSiweMessage({
+        domain: window.location.host,
+        uri: window.location.origin,
+        version: '1',
+        address,
+        chainId,
+        nonce,
+        statement: getSignInStatement(handle),
+        issuedAt,
+        expirationTime: new Date(issuedAt.getTime() + SIGN_IN_MESSAGE_TTL_MS),
+      });
+      const signature = await signMessageAsync({ message });
+      const { session } = await requestIdentityApi<{ session: WalletSession }>('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature, handle }),
+      });
+      queryClient.setQueryData(SESSION_QUERY_KEY, session);
+      void queryClient.invalidateQueries({ queryKey: ['walletLinks'] });
+    } catch (error) {
+      console.error('Error signing in with Ethereum:', error);
+      setActionError(error as Error);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const signOut = async () => {
+    setActionError(null);
+    try {
+      await requestIdentityApi('/api/auth/session', { method: 'DELETE' });
+      queryClient.setQueryData(SESSION_QUERY_KEY, null);
+      queryClient.removeQueries({ queryKey: ['walletLinks'] });
+    } catch (error) {
+      console.error('Error signing out:', error);
+      setActionError(error as Error);
+    }
+  };
+
+  const session = data && address && data.address.toLowerCase() === address.toLowerCase() ? data : null;
+  return {
+    session,
+    isLoading,
+    isSigningIn,
+    error: actionError ?? error,
+    signIn,
+    signOut,
+  };
+}
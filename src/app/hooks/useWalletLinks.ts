@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { requestIdentityApi, WalletLink } from '../identity';
+import { queryClient } from '../queryClient';
+
+export interface WalletLinks {
+  links: WalletLink[] | null;
+  isLoading: boolean;
+  error: Error | null;
+  // Accept a wallet's claim on a handle another wallet already holds
+  confirmLink: (address: `0x${string}`) => Promise<void>;
+  // Remove a wallet's link
+  rejectLink: (address: `0x${string}`) => Promise<void>;
+}
+
+const LINKS_QUERY_KEY = ['walletLinks'];
+
+/**
+ * Every wallet-to-handle link; readable once an organizer is signed in
+ * @param isEnabled - Whether the signed-in wallet is an organizer
+ */
+export function useWalletLinks(isEnabled: boolean): WalletLinks {
+  const [actionError, setActionError] = useState<Error | null>(null);
+  const { data, isLoading, error } = useQuery({
+    queryKey: LINKS_QUERY_KEY,
+    queryFn: async () => (await requestIdentityApi<{ links: WalletLink[] }>('/api/links')).links,
+    enabled: isEnabled,
+  });
+
+  const updateLink = async (method: 'POST' | 'DELETE', address: `0x${string}`) => {
+    setActionError(null);
+    try {
+      await requestIdentityApi('/api/links', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address }),
+      });
+    } catch (error) {
+      console.error('Error updating wallet link:', error);
+      setActionError(error as Error);
+    } finally {
+      void queryClient.invalidateQueries({ queryKey: LINKS_QUERY_KEY });
+    }
+  };
+
+  return {
+    links: data ?? null,
+    isLoading: isEnabled && isLoading,
+    error: actionError ?? error,
+    confirmLink: (address) => updateLink('POST', address),
+    rejectLink: (address) => updateLink('DELETE', address),
+  };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { DEFAULT_LOCALE, detectLocale, Locale, MESSAGES, Messages, saveLocale } from '.';
+
+interface I18nContextValue {
+  locale: Locale;
+  // Active message catalog
+  t: Messages;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  t: MESSAGES[DEFAULT_LOCALE],
+  setLocale: () => {},
+});
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  // Server render and first client render use the default locale to avoid hydration mismatches
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(detectLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((nextLocale: Locale) => {
+    saveLocale(nextLocale);
+    setLocaleState(nextLocale);
+  }, []);
+
+  return (
+    <I18nContext.Provider value={{ locale, t: MESSAGES[locale], setLocale }}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+/**
+ * Active locale, its message catalog and the locale setter
+ */
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,331 @@
+import type { CoursePhase } from '../hooks/useCourseTimeline';
+import type { HistoryEntryKind } from '../history';
+import type { Locale } from '.';
+
+/**
+ * English message catalog. Every other catalog must have the same shape (see `Messages`).
+ * Messages with values are functions so each language can place them where its grammar needs.
+ */
+export const en = {
+  locale: 'en' as Locale,
+  languageName: 'English',
+
+  common: {
+    retry: 'Retry',
+    refresh: 'Refresh',
+    close: 'Close',
+    loading: 'Loading...',
+    processing: 'Processing...',
+    token: 'Token',
+    a11yState: (label: string, isDisabled: boolean) => `${label} - ${isDisabled ? 'disabled' : 'enabled'}`,
+  },
+
+  localeSwitcher: {
+    label: 'Language',
+  },
+
+  pool: {
+    title: 'Security Deposit Pool',
+    allCohorts: 'All cohorts',
+    lookUpAddress: 'Look up an address',
+    poolStats: 'Pool stats',
+    switchNetwork: (network: string) => `Switch to ${network}`,
+    depositComplete: 'Deposit Complete',
+    alreadyDeposited: 'Already Deposited',
+    viewReceipt: 'View receipt',
+    depositSummary: { before: 'You will deposit ', after: '' },
+    checkingStatus: 'Checking status...',
+    connectionError: 'Connection Error',
+    enrolledAs: (label: string) => `Enrolled as ${label}`,
+    checkingEnrollment: 'Checking enrollment...',
+    enrollmentCheckFailed: 'Enrollment could not be checked',
+    notEnrolledTitle: 'This wallet is not enrolled',
+    notEnrolled: (cohort: string) =>
+      `Only wallets enrolled in ${cohort} can deposit. If you are enrolled, connect the wallet you registered with, or ask the organizers to add this one.`,
+  },
+
+  poolIndex: {
+    title: 'Security Deposit Pools',
+    subtitle: 'Choose your cohort',
+  },
+
+  actions: {
+    stepApprove: 'Approve',
+    stepDeposit: 'Deposit',
+    approve: (symbol: string) => `Approve ${symbol}`,
+    approving: 'Approving...',
+    approved: 'Approved',
+    deposit: (amount: string | null) => (amount ? `Deposit ${amount}` : 'Deposit'),
+    approveAndDeposit: (amount: string | null) => (amount ? `Approve & Deposit ${amount}` : 'Approve & Deposit'),
+    batchNote: 'Your wallet will ask you to confirm once for both steps.',
+    exactApprovalNote: 'Approves exactly the deposit amount, never an unlimited allowance.',
+    a11yApprove: (symbol: string) => `Approve ${symbol} spending`,
+    a11yDeposit: 'Make deposit',
+    a11yApproveAndDeposit: 'Approve and deposit in one transaction',
+  },
+
+  fees: {
+    networkFee: (fee: string) => `Network fee: up to ${fee}`,
+    insufficient: (symbol: string, fee: string, balance: string) =>
+      `Not enough ${symbol} for the network fee (up to ${fee}, you have ${balance}).`,
+  },
+
+  allowanceReset: {
+    title: 'Allowance reset needed',
+    existingAllowance: (amount: string | null) => (amount
+      ? `This pool already has a partial allowance of ${amount} from your wallet.`
+      : 'This pool already has a partial allowance from your wallet.'),
+    explanation: (symbol: string | null) =>
+      `${symbol ?? 'This token'} does not allow changing it directly, so it has to be set to 0 before the exact deposit amount can be approved.`,
+    stepReset: '1. Reset',
+    stepApprove: '2. Approve',
+    stepDeposit: '3. Deposit',
+    resetting: 'Resetting...',
+    reset: 'Reset Allowance to 0',
+    a11yReset: (symbol: string | null) => `Reset ${symbol ?? 'token'} allowance to zero`,
+  },
+
+  refund: {
+    refundComplete: 'Refund Complete',
+    noRefundRemaining: 'No Refund Remaining',
+    finalized: 'The course has been finalized. You can now claim your refund.',
+    claimableAfter: (date: string) => `Refunds can be claimed after ${date}.`,
+    claim: (amount: string) => `Claim Refund (${amount})`,
+    a11yClaim: 'Claim refund',
+  },
+
+  timeline: {
+    phases: {
+      'before-course': 'Before Course',
+      'in-progress': 'In Progress',
+      'finalized': 'Finalized',
+    } as Record<CoursePhase, string>,
+    depositWindow: 'Deposit window',
+    closed: 'Closed',
+    openUntil: (date: string) => `Open until ${date}`,
+    courseStarts: 'Course starts',
+    finalization: 'Finalization',
+    depositsUnlocked: 'Deposits unlocked',
+    unlocksIn: 'Unlocks in',
+    countdown: (days: number, hours: string, minutes: string, seconds: string) =>
+      `${days}d ${hours}h ${minutes}m ${seconds}s`,
+  },
+
+  history: {
+    title: 'History',
+    loading: 'Loading history...',
+    empty: 'No transactions found yet.',
+    kinds: {
+      approval: 'Approval',
+      deposit: 'Deposit',
+      refund: 'Refund',
+      slash: 'Slashed',
+    } as Record<HistoryEntryKind, string>,
+    pending: 'Pending',
+    confirmed: 'Confirmed',
+    loadOlder: 'Load older',
+    scannedBackTo: (block: string) => `Scanned back to block ${block}`,
+    showingAll: 'Showing all transactions since the pool was deployed',
+  },
+
+  errorPopup: {
+    title: 'Transaction Failed',
+    tryAgain: 'Try Again',
+    a11yClose: 'Close error dialog',
+  },
+
+  receipt: {
+    title: 'Deposit Receipt',
+    loading: 'Loading receipt...',
+    notFound: 'No deposit found for this transaction.',
+    depositor: 'Depositor',
+    amount: 'Amount',
+    network: 'Network',
+    pool: 'Pool',
+    block: 'Block',
+    blockTime: 'Block time',
+    confirmations: 'Confirmations',
+    transaction: 'Transaction',
+    copyLink: 'Copy Link',
+    linkCopied: 'Link Copied',
+    downloadJson: 'Download JSON',
+    print: 'Print',
+  },
+
+  status: {
+    title: 'Deposit Status',
+    subtitle: 'Look up any address, ENS name or Basename',
+    placeholder: '0x… or name.eth',
+    a11yInput: 'Address, ENS name or Basename',
+    lookUp: 'Look up',
+    resolving: 'Resolving address...',
+    coursePhase: 'Course phase',
+    deposited: 'Deposited',
+    yes: 'Yes',
+    notYet: 'Not yet',
+    remainingDeposit: 'Remaining deposit',
+    allowanceToPool: 'Allowance to pool',
+    walletBalance: 'Wallet balance',
+  },
+
+  verification: {
+    title: 'Deposit Verification',
+    subtitle: 'Check which participants have paid their deposit',
+    a11yPool: 'Pool',
+    a11yCsv: 'Participants CSV',
+    upload: 'Upload CSV',
+    verify: 'Verify',
+    exportCsv: 'Export CSV',
+    skippedRows: (count: number) => `Skipped ${count} row(s)`,
+    invalidReasons: {
+      'no-address': 'No valid address',
+      'duplicate': 'Duplicate address',
+    },
+    rowLine: (line: number) => `Line ${line}`,
+    checking: (count: number) => `Checking ${count} wallet(s)...`,
+    paidCount: (count: number) => `${count} paid`,
+    unpaidCount: (count: number) => `${count} unpaid`,
+    filters: { all: 'all', paid: 'paid', unpaid: 'unpaid' },
+    name: 'Name',
+    address: 'Address',
+    status: 'Status',
+    paid: 'Paid',
+    unpaid: 'Unpaid',
+  },
+
+  stats: {
+    title: 'Pool Statistics',
+    backToPool: 'Back to pool',
+    aggregating: 'Aggregating deposits...',
+    depositors: 'Depositors',
+    heldByPool: 'Held by pool',
+    depositAmount: 'Deposit amount',
+    totalDeposited: 'Total deposited',
+    totalSlashed: 'Total slashed',
+    courseFinalization: 'Course finalization',
+    depositsOverTime: 'Deposits over time',
+    noDeposits: 'No deposits yet.',
+    total: (count: string) => `${count} total`,
+    dailyDeposits: (date: string, count: string) => `${date}: ${count} deposit(s)`,
+    aggregatedUpTo: (block: string) => `Events aggregated up to block ${block}`,
+  },
+
+  identity: {
+    hint: 'Sign a message to link this wallet to your course handle, so organizers can match your deposit to you. Signing costs no gas.',
+    a11yHandle: 'Course handle',
+    handlePlaceholder: '@handle',
+    link: 'Link wallet',
+    change: 'Change',
+    signIn: 'Sign in with Ethereum',
+    signing: 'Sign the message in your wallet...',
+    linkedAs: (handle: string) => `Linked to @${handle}`,
+    pendingAs: (handle: string) => `@${handle} is already linked to another wallet. Organizers will see it for this wallet once one of them confirms it.`,
+    signedInAsOrganizer: 'Signed in as an organizer',
+    organizerHint: 'Sign in with an organizer wallet to see the course handles linked to each wallet.',
+    notOrganizer: 'This wallet is not an organizer, so linked course handles stay hidden.',
+    signOut: 'Sign out',
+    handle: 'Handle',
+    importLinked: (count: number) => `Import ${count} linked wallet(s)`,
+    claimsTitle: (count: number) => `${count} handle claim(s) awaiting confirmation`,
+    claimsHint: 'These wallets signed for a handle another wallet had already linked. Confirm only wallets you know belong to that participant.',
+    claimedBy: (address: string) => `Claimed by ${address}`,
+    heldBy: (address: string) => `Already linked to ${address}`,
+    confirm: 'Confirm',
+    reject: 'Reject',
+    errors: {
+      INVALID_REQUEST: 'The sign-in request was malformed. Please try again.',
+      INVALID_HANDLE: 'Handles are 2 to 32 letters, digits, "_", "." or "-".',
+      INVALID_MESSAGE: 'The sign-in message expired or was not issued by this site. Please try again.',
+      INVALID_SIGNATURE: 'The signature does not match the connected wallet.',
+      NOT_SIGNED_IN: 'Please sign in first.',
+      NOT_ORGANIZER: 'This wallet is not an organizer.',
+      LINK_NOT_FOUND: 'This wallet no longer has a linked handle.',
+      AUTH_NOT_CONFIGURED: 'Sign-in is not configured on this server.',
+    },
+  },
+
+  demo: {
+    title: 'Demo mode',
+    description: 'Offline simulation. No real funds or network.',
+    wallet: 'Demo wallet',
+    gasBalance: 'Gas',
+    tokenBalance: 'Balance',
+    allowance: 'Allowance',
+    block: (block: string) => `Block ${block}`,
+    nextTransaction: 'Next transaction',
+    outcomes: {
+      success: 'Succeeds',
+      reject: 'Rejected in wallet',
+      revert: 'Reverts on-chain',
+    },
+    finalizeCourse: 'Finalize course',
+    partialAllowance: 'Leave partial allowance',
+    emptyGas: 'Empty gas balance',
+    refillGas: 'Refill gas balance',
+    reset: 'Reset demo',
+  },
+
+  diagnostics: {
+    title: 'Configuration',
+    subtitle: 'Environment variables and the contracts they point to.',
+    issuesFound: (count: number) => `${count} problem(s) found. The app cannot start until they are fixed.`,
+    value: 'Value',
+    rebuildHint: 'NEXT_PUBLIC_* variables are built into the app: rebuild and redeploy after changing them.',
+    checking: 'Checking the contracts on-chain...',
+    checkFailed: 'The on-chain checks could not run.',
+    allGood: 'The configuration is valid and every contract was found on-chain.',
+    issues: {
+      missing: () => 'Required, but not set.',
+      'missing-start-block': () => 'Required outside a local chain: the block the pool was deployed in, where event scans start.',
+      'invalid-json': (detail: string) => `Not valid JSON: ${detail}`,
+      'invalid-registry': () => 'Must be a non-empty JSON array of deployments.',
+      'invalid-entry': () => 'Each deployment must be a JSON object.',
+      'invalid-address': () => 'Not a valid address (0x followed by 40 hexadecimal characters).',
+      'unsupported-chain': (supported: string) => `Not a supported chain id. Supported chain ids: ${supported}.`,
+      'invalid-number': () => 'Must be a non-negative whole number.',
+      'invalid-url': () => 'Must be an http(s) URL.',
+      'invalid-root': () => 'Must be a Merkle root (0x followed by 64 hexadecimal characters).',
+      'duplicate-id': () => 'Another deployment already uses this id.',
+      'unknown-deployment': () => 'No deployment in the registry has this id.',
+      'no-bytecode': (chain: string) => `No contract is deployed at this address on ${chain}.`,
+      'token-mismatch': (poolToken: string) => `The pool takes deposits in ${poolToken}, not in this token.`,
+      'invalid-allowlist': (detail: string) => `The allowlist could not be used: ${detail}`,
+    },
+  },
+
+  errors: {
+    USER_REJECTED: 'The transaction was rejected in your wallet.',
+    WALLET_NOT_CONNECTED: 'Wallet not connected. Please connect your wallet first.',
+    UNSUPPORTED_CHAIN: 'Unsupported network. Please ensure you are connected to the correct network.',
+    CONFIGURATION_ERROR: 'Contract configuration error. Please check environment variables.',
+    INVALID_ADDRESS: 'Enter a valid 0x address, ENS name or Basename.',
+    NAME_NOT_RESOLVED: (name: string) => `${name} does not resolve to an address.`,
+    INSUFFICIENT_GAS_FUNDS: 'Insufficient ETH balance for gas fees.',
+    INSUFFICIENT_TOKEN_BALANCE: (symbol: string, required: string | null) => (required
+      ? `Insufficient ${symbol} balance. You need at least ${required} to complete the deposit.`
+      : `Insufficient ${symbol} balance. Please ensure you have enough ${symbol} in your wallet.`),
+    INSUFFICIENT_ALLOWANCE: (symbol: string | null) =>
+      `${symbol ?? 'Token'} allowance is insufficient. Please approve ${symbol ?? 'token'} spending again.`,
+    ALLOWANCE_RESET_REQUIRED: (amount: string | null) => (amount
+      ? `Your existing allowance of ${amount} must be reset to 0 before a new amount can be approved.`
+      : 'Your existing token allowance must be reset to 0 before a new amount can be approved.'),
+    ALREADY_DEPOSITED: 'You have already made a deposit to this contract.',
+    NOT_DEPOSITED: 'No deposit found for this wallet.',
+    COURSE_FINALIZED: 'The course has been finalized. Deposits are no longer accepted.',
+    COURSE_NOT_FINALIZED: (date: string | null) => (date
+      ? `The course has not been finalized yet. Refunds open after ${date}.`
+      : 'The course has not been finalized yet. Refunds open after the finalization time.'),
+    NO_REMAINING_DEPOSIT: 'There is no remaining deposit to refund.',
+    CONTRACT_REVERTED: (errorName: string | null) => (errorName
+      ? `Transaction was reverted by the contract: ${errorName}.`
+      : 'Transaction was reverted by the contract. Please check contract conditions and try again.'),
+    NONCE_ERROR: 'Transaction nonce error. Please reset your wallet account or try again.',
+    TRANSACTION_DROPPED: 'The pending transaction was dropped or replaced. Please check your wallet and try again.',
+    BATCH_UNSUPPORTED: 'Your wallet cannot send the approval and deposit together. Please approve and deposit in two steps.',
+    NETWORK_ERROR: 'Network error occurred. Please check your connection and try again.',
+    RATE_LIMITED: 'Too many requests. Please wait a moment before trying again.',
+    UNKNOWN: 'An unexpected error occurred. Please try again.',
+  },
+};
+
+export type Messages = typeof en;
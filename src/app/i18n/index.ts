@@ -0,0 +1,75 @@
+import { en, Messages } from './en';
+import { ko } from './ko';
+
+/**
+ * Localization: message catalogs, locale detection and locale-aware formatting.
+ * Components read the active catalog through `useI18n` (see `I18nProvider`).
+ */
+
+export type Locale = 'en' | 'ko';
+export type { Messages };
+
+export const MESSAGES: Record<Locale, Messages> = { en, ko };
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const STORAGE_KEY = 'security-deposit:locale';
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+/**
+ * Locale to use in the browser: the one picked in the switcher, else the first supported browser language
+ */
+export function detectLocale(): Locale {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) {
+      return stored;
+    }
+  } catch (error) {
+    console.error('Error loading locale:', error);
+  }
+
+  const languages = window.navigator.languages?.length ? window.navigator.languages : [window.navigator.language];
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) {
+      return base;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Remember the locale picked in the switcher
+ */
+export function saveLocale(locale: Locale): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error('Error saving locale:', error);
+  }
+}
+
+/**
+ * Format a unix timestamp (seconds) as a local date and time
+ */
+export function formatDateTime(timestamp: number, locale: Locale): string {
+  return new Date(timestamp * 1000).toLocaleString(locale);
+}
+
+/**
+ * Format a unix timestamp (seconds) as a local date
+ */
+export function formatDate(timestamp: number, locale: Locale): string {
+  return new Date(timestamp * 1000).toLocaleDateString(locale);
+}
+
+/**
+ * Format an integer with the locale's digit grouping
+ */
+export function formatInteger(value: bigint | number, locale: Locale): string {
+  return value.toLocaleString(locale);
+}
@@ -0,0 +1,325 @@
+import type { Messages } from './en';
+
+/**
+ * Korean message catalog
+ */
+export const ko: Messages = {
+  locale: 'ko',
+  languageName: '한국어',
+
+  common: {
+    retry: '다시 시도',
+    refresh: '새로고침',
+    close: '닫기',
+    loading: '불러오는 중...',
+    processing: '처리 중...',
+    token: '토큰',
+    a11yState: (label, isDisabled) => `${label} - ${isDisabled ? '비활성' : '활성'}`,
+  },
+
+  localeSwitcher: {
+    label: '언어',
+  },
+
+  pool: {
+    title: '보증금 풀',
+    allCohorts: '전체 기수',
+    lookUpAddress: '주소 조회',
+    poolStats: '풀 통계',
+    switchNetwork: (network) => `${network}(으)로 전환`,
+    depositComplete: '예치 완료',
+    alreadyDeposited: '이미 예치함',
+    viewReceipt: '영수증 보기',
+    depositSummary: { before: '예치할 금액: ', after: '' },
+    checkingStatus: '상태 확인 중...',
+    connectionError: '연결 오류',
+    enrolledAs: (label) => `${label}(으)로 등록됨`,
+    checkingEnrollment: '등록 여부 확인 중...',
+    enrollmentCheckFailed: '등록 여부를 확인하지 못했습니다',
+    notEnrolledTitle: '등록되지 않은 지갑입니다',
+    notEnrolled: (cohort) =>
+      `${cohort}에 등록된 지갑만 예치할 수 있습니다. 등록했다면 등록한 지갑으로 연결하거나, 운영진에게 이 지갑을 추가해 달라고 요청하세요.`,
+  },
+
+  poolIndex: {
+    title: '보증금 풀 목록',
+    subtitle: '기수를 선택하세요',
+  },
+
+  actions: {
+    stepApprove: '승인',
+    stepDeposit: '예치',
+    approve: (symbol) => `${symbol} 승인`,
+    approving: '승인 중...',
+    approved: '승인 완료',
+    deposit: (amount) => (amount ? `${amount} 예치` : '예치'),
+    approveAndDeposit: (amount) => (amount ? `승인 후 ${amount} 예치` : '승인 후 예치'),
+    batchNote: '지갑에서 한 번만 확인하면 두 단계가 함께 처리됩니다.',
+    exactApprovalNote: '무제한이 아닌, 정확히 예치 금액만큼만 승인합니다.',
+    a11yApprove: (symbol) => `${symbol} 사용 승인`,
+    a11yDeposit: '예치하기',
+    a11yApproveAndDeposit: '한 번의 트랜잭션으로 승인 및 예치',
+  },
+
+  fees: {
+    networkFee: (fee) => `네트워크 수수료: 최대 ${fee}`,
+    insufficient: (symbol, fee, balance) =>
+      `네트워크 수수료를 낼 ${symbol}이(가) 부족합니다 (최대 ${fee} 필요, 보유 ${balance}).`,
+  },
+
+  allowanceReset: {
+    title: '승인 한도 초기화 필요',
+    existingAllowance: (amount) => (amount
+      ? `이 풀에는 이미 지갑에서 ${amount}의 일부 승인 한도가 설정되어 있습니다.`
+      : '이 풀에는 이미 지갑에서 일부 승인 한도가 설정되어 있습니다.'),
+    explanation: (symbol) =>
+      `${symbol ?? '이 토큰'}은(는) 승인 한도를 바로 변경할 수 없으므로, 정확한 예치 금액을 승인하기 전에 0으로 초기화해야 합니다.`,
+    stepReset: '1. 초기화',
+    stepApprove: '2. 승인',
+    stepDeposit: '3. 예치',
+    resetting: '초기화 중...',
+    reset: '승인 한도를 0으로 초기화',
+    a11yReset: (symbol) => `${symbol ?? '토큰'} 승인 한도를 0으로 초기화`,
+  },
+
+  refund: {
+    refundComplete: '환급 완료',
+    noRefundRemaining: '남은 환급액 없음',
+    finalized: '과정이 종료되었습니다. 이제 환급을 받을 수 있습니다.',
+    claimableAfter: (date) => `${date} 이후에 환급을 받을 수 있습니다.`,
+    claim: (amount) => `환급 받기 (${amount})`,
+    a11yClaim: '환급 받기',
+  },
+
+  timeline: {
+    phases: {
+      'before-course': '과정 시작 전',
+      'in-progress': '진행 중',
+      'finalized': '종료',
+    },
+    depositWindow: '예치 기간',
+    closed: '마감',
+    openUntil: (date) => `${date}까지`,
+    courseStarts: '과정 시작',
+    finalization: '과정 종료',
+    depositsUnlocked: '보증금 잠금 해제됨',
+    unlocksIn: '잠금 해제까지',
+    countdown: (days, hours, minutes, seconds) => `${days}일 ${hours}시간 ${minutes}분 ${seconds}초`,
+  },
+
+  history: {
+    title: '거래 내역',
+    loading: '내역 불러오는 중...',
+    empty: '아직 거래 내역이 없습니다.',
+    kinds: {
+      approval: '승인',
+      deposit: '예치',
+      refund: '환급',
+      slash: '차감',
+    },
+    pending: '대기 중',
+    confirmed: '확정',
+    loadOlder: '이전 내역 더 보기',
+    scannedBackTo: (block) => `블록 ${block}까지 조회함`,
+    showingAll: '풀 배포 이후의 모든 거래를 표시하고 있습니다',
+  },
+
+  errorPopup: {
+    title: '트랜잭션 실패',
+    tryAgain: '다시 시도',
+    a11yClose: '오류 창 닫기',
+  },
+
+  receipt: {
+    title: '예치 영수증',
+    loading: '영수증 불러오는 중...',
+    notFound: '이 트랜잭션에서 예치 내역을 찾을 수 없습니다.',
+    depositor: '예치자',
+    amount: '금액',
+    network: '네트워크',
+    pool: '풀',
+    block: '블록',
+    blockTime: '블록 시간',
+    confirmations: '컨펌 수',
+    transaction: '트랜잭션',
+    copyLink: '링크 복사',
+    linkCopied: '링크 복사됨',
+    downloadJson: 'JSON 다운로드',
+    print: '인쇄',
+  },
+
+  status: {
+    title: '예치 상태',
+    subtitle: '주소, ENS 이름 또는 Basename으로 조회하세요',
+    placeholder: '0x… 또는 name.eth',
+    a11yInput: '주소, ENS 이름 또는 Basename',
+    lookUp: '조회',
+    resolving: '주소 확인 중...',
+    coursePhase: '과정 단계',
+    deposited: '예치 여부',
+    yes: '예치함',
+    notYet: '아직 안 함',
+    remainingDeposit: '남은 보증금',
+    allowanceToPool: '풀 승인 한도',
+    walletBalance: '지갑 잔액',
+  },
+
+  verification: {
+    title: '예치 확인',
+    subtitle: '참가자별 보증금 납부 여부를 확인합니다',
+    a11yPool: '풀',
+    a11yCsv: '참가자 CSV',
+    upload: 'CSV 업로드',
+    verify: '확인',
+    exportCsv: 'CSV 내보내기',
+    skippedRows: (count) => `${count}개 행을 건너뜀`,
+    invalidReasons: {
+      'no-address': '유효한 주소 없음',
+      'duplicate': '중복 주소',
+    },
+    rowLine: (line) => `${line}행`,
+    checking: (count) => `지갑 ${count}개 확인 중...`,
+    paidCount: (count) => `납부 ${count}명`,
+    unpaidCount: (count) => `미납 ${count}명`,
+    filters: { all: '전체', paid: '납부', unpaid: '미납' },
+    name: '이름',
+    address: '주소',
+    status: '상태',
+    paid: '납부',
+    unpaid: '미납',
+  },
+
+  stats: {
+    title: '풀 통계',
+    backToPool: '풀로 돌아가기',
+    aggregating: '예치 내역 집계 중...',
+    depositors: '예치자 수',
+    heldByPool: '풀 보유액',
+    depositAmount: '예치 금액',
+    totalDeposited: '총 예치액',
+    totalSlashed: '총 차감액',
+    courseFinalization: '과정 종료',
+    depositsOverTime: '기간별 예치',
+    noDeposits: '아직 예치 내역이 없습니다.',
+    total: (count) => `총 ${count}건`,
+    dailyDeposits: (date, count) => `${date}: 예치 ${count}건`,
+    aggregatedUpTo: (block) => `블록 ${block}까지의 이벤트를 집계했습니다`,
+  },
+
+  identity: {
+    hint: '메시지에 서명하여 이 지갑을 과정 핸들과 연결하면 운영진이 예치 내역을 본인과 대조할 수 있습니다. 서명에는 가스비가 들지 않습니다.',
+    a11yHandle: '과정 핸들',
+    handlePlaceholder: '@핸들',
+    link: '지갑 연결',
+    change: '변경',
+    signIn: '이더리움으로 로그인',
+    signing: '지갑에서 메시지에 서명하세요...',
+    linkedAs: (handle) => `@${handle}에 연결됨`,
+    pendingAs: (handle) => `@${handle}은(는) 이미 다른 지갑에 연결되어 있습니다. 운영진이 확인하면 이 지갑에도 연결된 것으로 표시됩니다.`,
+    signedInAsOrganizer: '운영진으로 로그인됨',
+    organizerHint: '운영진 지갑으로 로그인하면 지갑별로 연결된 과정 핸들을 볼 수 있습니다.',
+    notOrganizer: '운영진 지갑이 아니므로 연결된 과정 핸들이 표시되지 않습니다.',
+    signOut: '로그아웃',
+    handle: '핸들',
+    importLinked: (count) => `연결된 지갑 ${count}개 가져오기`,
+    claimsTitle: (count) => `확인을 기다리는 핸들 연결 요청 ${count}건`,
+    claimsHint: '다른 지갑이 먼저 연결한 핸들에 서명한 지갑입니다. 해당 참가자의 지갑이 확실한 경우에만 확인하세요.',
+    claimedBy: (address) => `요청한 지갑: ${address}`,
+    heldBy: (address) => `이미 연결된 지갑: ${address}`,
+    confirm: '확인',
+    reject: '거절',
+    errors: {
+      INVALID_REQUEST: '로그인 요청 형식이 잘못되었습니다. 다시 시도해 주세요.',
+      INVALID_HANDLE: '핸들은 2~32자의 영문, 숫자, "_", ".", "-"로 입력해 주세요.',
+      INVALID_MESSAGE: '로그인 메시지가 만료되었거나 이 사이트에서 발급되지 않았습니다. 다시 시도해 주세요.',
+      INVALID_SIGNATURE: '서명이 연결된 지갑과 일치하지 않습니다.',
+      NOT_SIGNED_IN: '먼저 로그인해 주세요.',
+      NOT_ORGANIZER: '운영진 지갑이 아닙니다.',
+      LINK_NOT_FOUND: '이 지갑에 더 이상 연결된 핸들이 없습니다.',
+      AUTH_NOT_CONFIGURED: '이 서버에는 로그인이 설정되어 있지 않습니다.',
+    },
+  },
+
+  demo: {
+    title: '데모 모드',
+    description: '오프라인 시뮬레이션입니다. 실제 자금이나 네트워크를 사용하지 않습니다.',
+    wallet: '데모 지갑',
+    gasBalance: '가스',
+    tokenBalance: '잔액',
+    allowance: '승인 한도',
+    block: (block) => `블록 ${block}`,
+    nextTransaction: '다음 트랜잭션',
+    outcomes: {
+      success: '성공',
+      reject: '지갑에서 거절',
+      revert: '온체인 되돌림',
+    },
+    finalizeCourse: '코스 종료',
+    partialAllowance: '일부 승인 한도 남기기',
+    emptyGas: '가스 잔액 비우기',
+    refillGas: '가스 잔액 채우기',
+    reset: '데모 초기화',
+  },
+
+  diagnostics: {
+    title: '설정',
+    subtitle: '환경 변수와 그 변수가 가리키는 컨트랙트입니다.',
+    issuesFound: (count) => `문제가 ${count}건 있습니다. 수정하기 전에는 앱을 시작할 수 없습니다.`,
+    value: '값',
+    rebuildHint: 'NEXT_PUBLIC_* 변수는 빌드 시 앱에 포함됩니다. 변경한 후 다시 빌드하고 배포해 주세요.',
+    checking: '온체인에서 컨트랙트를 확인하는 중...',
+    checkFailed: '온체인 확인을 실행할 수 없습니다.',
+    allGood: '설정이 올바르며 모든 컨트랙트를 온체인에서 찾았습니다.',
+    issues: {
+      missing: () => '필수 값이지만 설정되지 않았습니다.',
+      'missing-start-block': () => '로컬 체인이 아니면 필수입니다: 풀이 배포된 블록으로, 이벤트 조회가 여기서 시작됩니다.',
+      'invalid-json': (detail) => `올바른 JSON이 아닙니다: ${detail}`,
+      'invalid-registry': () => '배포 정보로 이루어진 비어 있지 않은 JSON 배열이어야 합니다.',
+      'invalid-entry': () => '각 배포 정보는 JSON 객체여야 합니다.',
+      'invalid-address': () => '올바른 주소가 아닙니다 (0x 다음에 16진수 40자).',
+      'unsupported-chain': (supported) => `지원하지 않는 체인 ID입니다. 지원하는 체인 ID: ${supported}.`,
+      'invalid-number': () => '0 이상의 정수여야 합니다.',
+      'invalid-url': () => 'http(s) URL이어야 합니다.',
+      'invalid-root': () => '머클 루트(0x 뒤에 16진수 64자)여야 합니다.',
+      'duplicate-id': () => '다른 배포가 이미 이 ID를 사용하고 있습니다.',
+      'unknown-deployment': () => '레지스트리에 이 ID를 가진 배포가 없습니다.',
+      'no-bytecode': (chain) => `${chain}에서 이 주소에 배포된 컨트랙트가 없습니다.`,
+      'token-mismatch': (poolToken) => `풀은 이 토큰이 아니라 ${poolToken} 토큰으로 예치를 받습니다.`,
+      'invalid-allowlist': (detail) => `허용 목록을 사용할 수 없습니다: ${detail}`,
+    },
+  },
+
+  errors: {
+    USER_REJECTED: '지갑에서 트랜잭션이 거부되었습니다.',
+    WALLET_NOT_CONNECTED: '지갑이 연결되지 않았습니다. 먼저 지갑을 연결해 주세요.',
+    UNSUPPORTED_CHAIN: '지원하지 않는 네트워크입니다. 올바른 네트워크에 연결되어 있는지 확인해 주세요.',
+    CONFIGURATION_ERROR: '컨트랙트 설정 오류입니다. 환경 변수를 확인해 주세요.',
+    INVALID_ADDRESS: '올바른 0x 주소, ENS 이름 또는 Basename을 입력해 주세요.',
+    NAME_NOT_RESOLVED: (name) => `${name}에 연결된 주소가 없습니다.`,
+    INSUFFICIENT_GAS_FUNDS: '가스비를 낼 ETH 잔액이 부족합니다.',
+    INSUFFICIENT_TOKEN_BALANCE: (symbol, required) => (required
+      ? `${symbol} 잔액이 부족합니다. 예치하려면 최소 ${required}이(가) 필요합니다.`
+      : `${symbol} 잔액이 부족합니다. 지갑에 ${symbol}이(가) 충분한지 확인해 주세요.`),
+    INSUFFICIENT_ALLOWANCE: (symbol) =>
+      `${symbol ?? '토큰'} 승인 한도가 부족합니다. ${symbol ?? '토큰'} 사용을 다시 승인해 주세요.`,
+    ALLOWANCE_RESET_REQUIRED: (amount) => (amount
+      ? `새 금액을 승인하려면 기존 승인 한도 ${amount}을(를) 먼저 0으로 초기화해야 합니다.`
+      : '새 금액을 승인하려면 기존 토큰 승인 한도를 먼저 0으로 초기화해야 합니다.'),
+    ALREADY_DEPOSITED: '이미 이 컨트랙트에 예치했습니다.',
+    NOT_DEPOSITED: '이 지갑의 예치 내역이 없습니다.',
+    COURSE_FINALIZED: '과정이 종료되어 더 이상 예치할 수 없습니다.',
+    COURSE_NOT_FINALIZED: (date) => (date
+      ? `아직 과정이 종료되지 않았습니다. ${date} 이후에 환급을 받을 수 있습니다.`
+      : '아직 과정이 종료되지 않았습니다. 과정 종료 시각 이후에 환급을 받을 수 있습니다.'),
+    NO_REMAINING_DEPOSIT: '환급할 보증금이 남아 있지 않습니다.',
+    CONTRACT_REVERTED: (errorName) => (errorName
+      ? `컨트랙트가 트랜잭션을 되돌렸습니다: ${errorName}.`
+      : '컨트랙트가 트랜잭션을 되돌렸습니다. 컨트랙트 조건을 확인한 뒤 다시 시도해 주세요.'),
+    NONCE_ERROR: '트랜잭션 논스 오류입니다. 지갑 계정을 초기화하거나 다시 시도해 주세요.',
+    TRANSACTION_DROPPED: '대기 중이던 트랜잭션이 취소되었거나 교체되었습니다. 지갑을 확인한 뒤 다시 시도해 주세요.',
+    BATCH_UNSUPPORTED: '이 지갑은 승인과 예치를 함께 보낼 수 없습니다. 승인과 예치를 두 단계로 진행해 주세요.',
+    NETWORK_ERROR: '네트워크 오류가 발생했습니다. 연결 상태를 확인한 뒤 다시 시도해 주세요.',
+    RATE_LIMITED: '요청이 너무 많습니다. 잠시 후 다시 시도해 주세요.',
+    UNKNOWN: '예기치 않은 오류가 발생했습니다. 다시 시도해 주세요.',
+  },
+};
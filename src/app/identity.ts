@@ -0,0 +1,101 @@
+import { classifyError, describeDepositError } from './errors';
+import { Messages } from './i18n';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) and the wallet-to-handle links it creates.
+ *
+ * Shared by the browser and the `/api/auth` routes: the server rebuilds the
+ * expected statement from the submitted handle, so a signature only ever links
+ * the handle the participant saw in their wallet.
+ */
+
+// Course handles: letters, digits, `_`, `.` and `-`, optionally typed with a leading `@`
+const HANDLE_PATTERN = /^[A-Za-z0-9_.-]{2,32}$/;
+
+// Signed messages are accepted this long after they were issued
+export const SIGN_IN_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+export interface WalletLink {
+  address: `0x${string}`;
+  handle: string;
+  // Chain the message was signed on
+  chainId: number;
+  // ISO 8601
+  linkedAt: string;
+  // False while another wallet holds the handle and no organizer has confirmed this one
+  isConfirmed: boolean;
+}
+
+export interface WalletSession {
+  address: `0x${string}`;
+  // Linked course handle, if the wallet has one
+  handle: string | null;
+  // The handle waits for an organizer's confirmation, because another wallet linked it first
+  isHandlePending: boolean;
+  // Organizers can read every wallet link
+  isOrganizer: boolean;
+}
+
+export type IdentityErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_HANDLE'
+  | 'INVALID_MESSAGE'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_SIGNED_IN'
+  | 'NOT_ORGANIZER'
+  | 'LINK_NOT_FOUND'
+  | 'AUTH_NOT_CONFIGURED';
+
+/**
+ * Error response of an `/api/auth` or `/api/links` request
+ */
+export class IdentityRequestError extends Error {
+  readonly code: IdentityErrorCode | string;
+
+  constructor(code: IdentityErrorCode | string, message: string) {
+    super(message);
+    this.name = 'IdentityRequestError';
+    this.code = code;
+  }
+}
+
+/**
+ * Validate a course handle as typed by the participant
+ * @returns The handle without a leading `@`, or null if it is not valid
+ */
+export function normalizeHandle(value: string): string | null {
+  const handle = value.trim().replace(/^@/, '');
+  return HANDLE_PATTERN.test(handle) ? handle : null;
+}
+
+/**
+ * Statement of the sign-in message, shown by the wallet
+ * @param handle - Course handle to link, or null to sign in without linking
+ */
+export function getSignInStatement(handle: string | null): string {
+  return handle === null
+    ? 'Sign in to the security deposit app.'
+    : `Link this wallet to the course handle @${handle}.`;
+}
+
+/**
+ * Call an identity route, turning `{ error }` responses into IdentityRequestError
+ */
+export async function requestIdentityApi<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new IdentityRequestError(body?.error?.code ?? 'UNKNOWN', body?.error?.message ?? `HTTP ${response.status}`);
+  }
+  return body as T;
+}
+
+/**
+ * User-facing message of a failed sign-in or link request
+ */
+export function describeIdentityError(error: Error, t: Messages): string {
+  if (error instanceof IdentityRequestError) {
+    return t.identity.errors[error.code as keyof Messages['identity']['errors']] ?? error.message;
+  }
+  return describeDepositError(classifyError(error), null, t);
+}
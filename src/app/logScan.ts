@@ -0,0 +1,6 @@
+/**
+ * Block range of one `eth_getLogs` request, shared by every log scan (history,
+ * pool statistics, webhook relay). Public and free-tier RPCs cap the range,
+ * commonly somewhere between 2,000 and 10,000 blocks, so scans use the low end.
+ */
+export const LOG_CHUNK_SIZE = BigInt(2000);
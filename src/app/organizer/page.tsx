@@ -0,0 +1,5 @@
+import { BulkVerificationView } from '../components/BulkVerificationView';
+
+export default function OrganizerPage() {
+  return <BulkVerificationView />;
+}
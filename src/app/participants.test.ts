@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseParticipantsCsv, verifiedParticipantsToCsv } from './participants';
+
+const ALICE = '0x000000000000000000000000000000000000dEaD';
+const BOB = '0x0000000000000000000000000000000000000B0b';
+
+describe('parseParticipantsCsv', () => {
+  it('skips a header row and blank lines', () => {
+    const { participants, invalidRows } = parseParticipantsCsv(`name,address\n\nAlice,${ALICE}\r\nBob,${BOB}\n`);
+
+    expect(participants).toEqual([
+      { line: 3, name: 'Alice', address: ALICE },
+      { line: 4, name: 'Bob', address: BOB },
+    ]);
+    expect(invalidRows).toEqual([]);
+  });
+
+  it('reports a row without an address once a participant was read', () => {
+    const { participants, invalidRows } = parseParticipantsCsv(`Alice,${ALICE}\nwallet,missing`);
+
+    expect(participants).toHaveLength(1);
+    expect(invalidRows).toEqual([{ line: 2, raw: 'wallet,missing', reason: 'no-address' }]);
+  });
+
+  it('reports duplicate addresses regardless of case', () => {
+    const { participants, invalidRows } = parseParticipantsCsv(`Alice,${ALICE}\nAlice again,${ALICE.toLowerCase()}`);
+
+    expect(participants).toEqual([{ line: 1, name: 'Alice', address: ALICE }]);
+    expect(invalidRows).toEqual([{ line: 2, raw: `Alice again,${ALICE.toLowerCase()}`, reason: 'duplicate' }]);
+  });
+
+  it('reads quoted fields with delimiters and escaped quotes', () => {
+    const { participants } = parseParticipantsCsv(`"Kim, ""Alice""",${ALICE}`);
+
+    expect(participants).toEqual([{ line: 1, name: 'Kim, "Alice"', address: ALICE }]);
+  });
+
+  it('accepts semicolon and tab delimiters in either column order', () => {
+    const { participants } = parseParticipantsCsv(`address;name\n${ALICE};Alice\n${BOB}\tBob`);
+
+    expect(participants).toEqual([
+      { line: 2, name: 'Alice', address: ALICE },
+      { line: 3, name: 'Bob', address: BOB },
+    ]);
+  });
+});
+
+describe('verifiedParticipantsToCsv', () => {
+  it('exports the status and the linked handle of each participant', () => {
+    const csv = verifiedParticipantsToCsv(
+      [
+        { line: 1, name: 'Alice', address: ALICE, hasDeposited: true },
+        { line: 2, name: 'Bob', address: BOB, hasDeposited: false },
+      ],
+      new Map([[ALICE.toLowerCase(), 'alice']])
+    );
+
+    expect(csv).toBe(`name,address,status,handle\nAlice,${ALICE},paid,alice\nBob,${BOB},unpaid,\n`);
+  });
+
+  it('quotes fields with delimiters and neutralises formulas', () => {
+    const csv = verifiedParticipantsToCsv([
+      { line: 1, name: 'Kim, "Alice"', address: ALICE, hasDeposited: true },
+      { line: 2, name: '=HYPERLINK("http://example.com")', address: BOB, hasDeposited: false },
+      { line: 3, name: '@SUM(A1)', address: ALICE, hasDeposited: false },
+      { line: 4, name: '-1+2', address: BOB, hasDeposited: false },
+    ]);
+
+    expect(csv.split('\n').slice(1, 5)).toEqual([
+      `"Kim, ""Alice""",${ALICE},paid`,
+      `"'=HYPERLINK(""http://example.com"")",${BOB},unpaid`,
+      `'@SUM(A1),${ALICE},unpaid`,
+      `'-1+2,${BOB},unpaid`,
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { getAddress, isAddress } from 'viem';
+
+/**
+ * Participant lists for organizer bulk verification: parsed from a CSV of
+ * names and addresses, checked against the pool, and exported back to CSV.
+ */
+
+export interface Participant {
+  // 1-based line in the imported CSV
+  line: number;
+  name: string;
+  address: `0x${string}`;
+}
+
+export interface InvalidParticipantRow {
+  line: number;
+  raw: string;
+  reason: 'no-address' | 'duplicate';
+}
+
+export interface ParticipantList {
+  participants: Participant[];
+  invalidRows: InvalidParticipantRow[];
+}
+
+export interface VerifiedParticipant extends Participant {
+  hasDeposited: boolean;
+}
+
+/**
+ * Split one CSV line into fields, honouring double-quoted fields and escaped quotes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (isQuoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Quote a field for export. Names come from the imported CSV, so a leading `=`, `+`, `-`,
+ * `@`, tab or carriage return is prefixed with `'` to keep spreadsheets from running it as a formula.
+ */
+function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Parse a CSV of participants. Each row needs an address and may have a name,
+ * in either column order; a header row and blank lines are skipped.
+ * Duplicate addresses are reported as invalid rows.
+ * @param text - CSV text, pasted or read from an uploaded file
+ */
+export function parseParticipantsCsv(text: string): ParticipantList {
+  const participants: Participant[] = [];
+  const invalidRows: InvalidParticipantRow[] = [];
+  const seen = new Set<string>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (raw.trim().length === 0) {
+      return;
+    }
+
+    const fields = parseCsvLine(raw);
+    const addressIndex = fields.findIndex((field) => isAddress(field, { strict: false }));
+    if (addressIndex === -1) {
+      // A first row without an address is taken to be the header
+      if (participants.length === 0 && invalidRows.length === 0 && fields.some((field) => /address|wallet/i.test(field))) {
+        return;
+      }
+      invalidRows.push({ line, raw, reason: 'no-address' });
+      return;
+    }
+
+    const address = getAddress(fields[addressIndex]);
+    if (seen.has(address)) {
+      invalidRows.push({ line, raw, reason: 'duplicate' });
+      return;
+    }
+    seen.add(address);
+
+    const name = fields.find((field, fieldIndex) => fieldIndex !== addressIndex && field.length > 0) ?? '';
+    participants.push({ line, name, address });
+  });
+
+  return { participants, invalidRows };
+}
+
+/**
+ * Export verification results as CSV (name, address, status)
+ * @param linkedHandles - Course handles by lowercased address; adds a handle column when given
+ */
+export function verifiedParticipantsToCsv(results: VerifiedParticipant[], linkedHandles?: Map<string, string>): string {
+  const rows = results.map((result) =>
+    [
+      result.name,
+      result.address,
+      result.hasDeposited ? 'paid' : 'unpaid',
+      ...(linkedHandles ? [linkedHandles.get(result.address.toLowerCase()) ?? ''] : []),
+    ].map(escapeCsvField).join(',')
+  );
+  return [linkedHandles ? 'name,address,status,handle' : 'name,address,status', ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,78 @@
+/**
+ * Persists the in-flight transaction of each wallet and pool so the deposit flow can
+ * re-attach to it after a page reload instead of offering the same action twice.
+ */
+
+export type PendingTransactionKind = 'reset-allowance' | 'approve' | 'deposit' | 'withdraw' | 'batch';
+
+export interface PendingTransaction {
+  kind: PendingTransactionKind;
+  // Transaction hash, or the EIP-5792 call batch id for 'batch'
+  hash: string;
+  // Deposit amount in wei as a decimal string (deposits and batches only)
+  amount?: string;
+  submittedAt: number;
+}
+
+const STORAGE_KEY_PREFIX = 'security-deposit:pending-tx';
+
+function getStorageKey(chainId: number, poolAddress: string, address: string): string {
+  return `${STORAGE_KEY_PREFIX}:${chainId}:${poolAddress.toLowerCase()}:${address.toLowerCase()}`;
+}
+
+/**
+ * Remember a submitted transaction until it is mined
+ */
+export function savePendingTransaction(
+  chainId: number,
+  poolAddress: string,
+  address: string,
+  transaction: PendingTransaction
+): void {
+  try {
+    window.localStorage.setItem(getStorageKey(chainId, poolAddress, address), JSON.stringify(transaction));
+  } catch (error) {
+    // Storage can be unavailable (private mode, quota); resuming is best effort
+    console.error('Error saving pending transaction:', error);
+  }
+}
+
+/**
+ * Get the transaction that was still pending when the page was left, if any
+ */
+export function loadPendingTransaction(
+  chainId: number,
+  poolAddress: string,
+  address: string
+): PendingTransaction | null {
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(chainId, poolAddress, address));
+    if (!stored) {
+      return null;
+    }
+
+    const transaction = JSON.parse(stored) as Partial<PendingTransaction>;
+    const isValid = transaction.kind === 'batch'
+      ? typeof transaction.hash === 'string' && transaction.hash.length > 0
+      : (transaction.kind === 'reset-allowance' || transaction.kind === 'approve' ||
+          transaction.kind === 'deposit' || transaction.kind === 'withdraw') &&
+        typeof transaction.hash === 'string' &&
+        /^0x[a-fA-F0-9]{64}$/.test(transaction.hash);
+    if (!isValid) {
+      clearPendingTransaction(chainId, poolAddress, address);
+      return null;
+    }
+    return transaction as PendingTransaction;
+  } catch (error) {
+    console.error('Error loading pending transaction:', error);
+    return null;
+  }
+}
+
+export function clearPendingTransaction(chainId: number, poolAddress: string, address: string): void {
+  try {
+    window.localStorage.removeItem(getStorageKey(chainId, poolAddress, address));
+  } catch (error) {
+    console.error('Error clearing pending transaction:', error);
+  }
+}
@@ -0,0 +1,17 @@
+import { notFound } from 'next/navigation';
+import { DepositPoolView } from '../../../components/DepositPoolView';
+import { findDeployment } from '../../../deployments';
+
+interface PoolPageProps {
+  params: Promise<{ chainId: string; address: string }>;
+}
+
+export default async function PoolPage({ params }: PoolPageProps) {
+  const { chainId, address } = await params;
+  const deployment = findDeployment(Number(chainId), address);
+  if (!deployment) {
+    notFound();
+  }
+
+  return <DepositPoolView deploymentId={deployment.id} />;
+}
@@ -0,0 +1,17 @@
+import { notFound } from 'next/navigation';
+import { PoolStatsView } from '../../../../components/PoolStatsView';
+import { findDeployment } from '../../../../deployments';
+
+interface PoolStatsPageProps {
+  params: Promise<{ chainId: string; address: string }>;
+}
+
+export default async function PoolStatsPage({ params }: PoolStatsPageProps) {
+  const { chainId, address } = await params;
+  const deployment = findDeployment(Number(chainId), address);
+  if (!deployment) {
+    notFound();
+  }
+
+  return <PoolStatsView deploymentId={deployment.id} />;
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { erc20Abi } from 'viem';
+import { useReadContracts } from 'wagmi';
+import { SecurityDepositPool__factory } from '../abi';
+import { DEPLOYMENTS, getDeploymentChain, getPoolPath } from '../deployments';
+import { getCoursePhase } from '../hooks/useCourseTimeline';
+import { useI18n } from '../i18n/I18nProvider';
+import { formatTokenAmount } from '../token';
+
+// Reads per deployment: flat deposit amount, finalization time, token decimals and symbol
+const READS_PER_DEPLOYMENT = 4;
+
+/**
+ * Index of every pool deployment with its deposit amount and course phase
+ */
+export default function PoolIndex() {
+  const { locale, t } = useI18n();
+
+  // Deposit amount, finalization time and token of each pool, read on the pool's own chain
+  const { data } = useReadContracts({
+    contracts: DEPLOYMENTS.flatMap((deployment) => [
+      {
+        address: deployment.poolAddress,
+        abi: SecurityDepositPool__factory.abi,
+        functionName: 'flatDepositAmount',
+        chainId: deployment.chainId,
+      } as const,
+      {
+        address: deployment.poolAddress,
+        abi: SecurityDepositPool__factory.abi,
+        functionName: 'courseFinalizedTime',
+        chainId: deployment.chainId,
+      } as const,
+      { address: deployment.tokenAddress, abi: erc20Abi, functionName: 'decimals', chainId: deployment.chainId } as const,
+      { address: deployment.tokenAddress, abi: erc20Abi, functionName: 'symbol', chainId: deployment.chainId } as const,
+    ]),
+  });
+
+  // Only read the clock on the client to avoid hydration mismatches
+  const [now, setNow] = useState<number | null>(null);
+  useEffect(() => {
+    setNow(Math.floor(Date.now() / 1000));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        <div className="rounded-2xl shadow-2xl p-8" style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px'
+        }}>
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">
+              {t.poolIndex.title}
+            </h1>
+            <p className="text-gray-400 text-sm">{t.poolIndex.subtitle}</p>
+          </div>
+
+          {DEPLOYMENTS.map((deployment, index) => {
+            const [depositAmount, finalizedTime, decimals, symbol] = (data ?? [])
+              .slice(index * READS_PER_DEPLOYMENT, (index + 1) * READS_PER_DEPLOYMENT)
+              .map((item) => item.result);
+            const phase = typeof finalizedTime === 'bigint' && now !== null
+              ? getCoursePhase(Number(finalizedTime), deployment.courseStartTime, now)
+              : null;
+
+            return (
+              <Link
+                key={deployment.id}
+                href={getPoolPath(deployment)}
+                className="p-4 bg-gray-800/40 rounded-lg border border-gray-700 hover:border-gray-500 transition-colors"
+                style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}
+              >
+                <div>
+                  <div className="text-white font-semibold">{deployment.cohort}</div>
+                  <div className="text-gray-400 text-xs">{getDeploymentChain(deployment).name}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-gray-300 text-sm">
+                    {typeof depositAmount === 'bigint' && typeof decimals === 'number' && typeof symbol === 'string'
+                      ? formatTokenAmount(depositAmount, { decimals, symbol }, locale)
+                      : '—'}
+                  </div>
+                  <div className="text-gray-500 text-xs">{phase ? t.timeline.phases[phase] : '—'}</div>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
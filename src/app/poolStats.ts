@@ -0,0 +1,177 @@
+import { getPublicClient } from '@wagmi/core';
+import { SecurityDepositPool__factory } from './abi';
+import { config } from './config';
+import { createReadOnlyContractUtils, PoolSummary } from './contracts';
+import { Deployment } from './deployments';
+import { DepositPoolError, toDepositPoolError } from './errors';
+import { LOG_CHUNK_SIZE } from './logScan';
+import { TokenMetadata } from './token';
+
+/**
+ * Pool-wide statistics: live pool state plus deposits over time, aggregated from
+ * the pool's `Deposited` events.
+ *
+ * The aggregate is cached in localStorage per deployment together with the last
+ * scanned block, so a visit only scans the blocks mined since the previous one.
+ */
+
+export interface DailyDeposits {
+  // Unix seconds of the UTC day start
+  day: number;
+  count: number;
+  amount: bigint;
+}
+
+export interface DepositAggregate {
+  // Last block included in the aggregate
+  scannedToBlock: bigint;
+  depositCount: number;
+  totalDeposited: bigint;
+  // Oldest day first
+  daily: DailyDeposits[];
+}
+
+export interface PoolStats extends PoolSummary {
+  token: TokenMetadata;
+  deposits: DepositAggregate;
+}
+
+const STORAGE_KEY_PREFIX = 'security-deposit:deposit-aggregate';
+const SECONDS_PER_DAY = 86400;
+
+function getStorageKey(deployment: Deployment): string {
+  return `${STORAGE_KEY_PREFIX}:${deployment.chainId}:${deployment.poolAddress.toLowerCase()}`;
+}
+
+function loadAggregate(deployment: Deployment): DepositAggregate | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(deployment));
+    if (!stored) {
+      return null;
+    }
+    const parsed = JSON.parse(stored) as {
+      scannedToBlock: string;
+      depositCount: number;
+      totalDeposited: string;
+      daily: { day: number; count: number; amount: string }[];
+    };
+    return {
+      scannedToBlock: BigInt(parsed.scannedToBlock),
+      depositCount: parsed.depositCount,
+      totalDeposited: BigInt(parsed.totalDeposited),
+      daily: parsed.daily.map((item) => ({ day: item.day, count: item.count, amount: BigInt(item.amount) })),
+    };
+  } catch (error) {
+    // A corrupt cache only costs a full rescan
+    console.error('Error loading deposit aggregate:', error);
+    return null;
+  }
+}
+
+function saveAggregate(deployment: Deployment, aggregate: DepositAggregate): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    window.localStorage.setItem(getStorageKey(deployment), JSON.stringify({
+      scannedToBlock: aggregate.scannedToBlock.toString(),
+      depositCount: aggregate.depositCount,
+      totalDeposited: aggregate.totalDeposited.toString(),
+      daily: aggregate.daily.map((item) => ({ day: item.day, count: item.count, amount: item.amount.toString() })),
+    }));
+  } catch (error) {
+    console.error('Error saving deposit aggregate:', error);
+  }
+}
+
+/**
+ * Bring the deposit aggregate up to the latest block, scanning only blocks not aggregated yet
+ * @param deployment - Pool deployment
+ * @returns Promise<DepositAggregate> - Aggregate up to the latest block
+ * @throws DepositPoolError with the classified error
+ */
+export async function fetchDepositAggregate(deployment: Deployment): Promise<DepositAggregate> {
+  try {
+    const publicClient = getPublicClient(config, { chainId: deployment.chainId });
+    if (!publicClient) {
+      throw new DepositPoolError({ code: 'UNSUPPORTED_CHAIN' });
+    }
+
+    const cached = loadAggregate(deployment);
+    const latestBlock = await publicClient.getBlockNumber();
+    const daily = new Map((cached?.daily ?? []).map((item) => [item.day, { ...item }]));
+    let depositCount = cached?.depositCount ?? 0;
+    let totalDeposited = cached?.totalDeposited ?? BigInt(0);
+
+    let chunkFrom = cached ? cached.scannedToBlock + BigInt(1) : deployment.startBlock;
+    while (chunkFrom <= latestBlock) {
+      const chunkTo = chunkFrom + LOG_CHUNK_SIZE - BigInt(1) < latestBlock
+        ? chunkFrom + LOG_CHUNK_SIZE - BigInt(1)
+        : latestBlock;
+      const deposits = await publicClient.getContractEvents({
+        address: deployment.poolAddress,
+        abi: SecurityDepositPool__factory.abi,
+        eventName: 'Deposited',
+        fromBlock: chunkFrom,
+        toBlock: chunkTo,
+      });
+
+      // Block timestamps, read once per block
+      const blockNumbers = deposits
+        .map((log) => log.blockNumber)
+        .filter((blockNumber, index, all) => all.indexOf(blockNumber) === index);
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+      const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+      for (const log of deposits) {
+        const amount = log.args.amount ?? BigInt(0);
+        const timestamp = timestamps.get(log.blockNumber) ?? 0;
+        const day = timestamp - (timestamp % SECONDS_PER_DAY);
+        const bucket = daily.get(day) ?? { day, count: 0, amount: BigInt(0) };
+        bucket.count += 1;
+        bucket.amount += amount;
+        daily.set(day, bucket);
+        depositCount += 1;
+        totalDeposited += amount;
+      }
+
+      // Save after every chunk so an interrupted first scan resumes where it stopped
+      saveAggregate(deployment, {
+        scannedToBlock: chunkTo,
+        depositCount,
+        totalDeposited,
+        daily: Array.from(daily.values()).sort((a, b) => a.day - b.day),
+      });
+      chunkFrom = chunkTo + BigInt(1);
+    }
+
+    return {
+      scannedToBlock: latestBlock,
+      depositCount,
+      totalDeposited,
+      daily: Array.from(daily.values()).sort((a, b) => a.day - b.day),
+    };
+  } catch (error) {
+    console.error('Error aggregating deposits:', error);
+    throw toDepositPoolError(error);
+  }
+}
+
+/**
+ * Read the pool's live state and its deposit aggregate
+ * @param deployment - Pool deployment
+ * @returns Promise<PoolStats> - Pool summary, token and deposits over time
+ * @throws DepositPoolError with the classified error
+ */
+export async function fetchPoolStats(deployment: Deployment): Promise<PoolStats> {
+  const contractUtils = await createReadOnlyContractUtils(deployment);
+  const [summary, token, deposits] = await Promise.all([
+    contractUtils.getPoolSummary(),
+    contractUtils.getTokenMetadata(),
+    fetchDepositAggregate(deployment),
+  ]);
+  return { ...summary, token, deposits };
+}
@@ -1,21 +1,48 @@
 'use client';
 
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClientProvider } from '@tanstack/react-query';
+import dynamic from 'next/dynamic';
 import { WagmiProvider } from 'wagmi';
-import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
+import { Locale as RainbowKitLocale, RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import { config } from './config';
+import { ConfigGate } from './components/ConfigDiagnostics';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { IS_DEMO_MODE } from './demo/demoChain';
+import { Locale } from './i18n';
+import { I18nProvider, useI18n } from './i18n/I18nProvider';
+import { queryClient } from './queryClient';
 
 import '@rainbow-me/rainbowkit/styles.css';
 
-const queryClient = new QueryClient();
+// Loaded only in demo mode, so the demo ledger stays out of regular builds
+const DemoPanel = dynamic(() => import('./components/DemoPanel').then((module) => module.DemoPanel), { ssr: false });
+
+const RAINBOWKIT_LOCALES: Record<Locale, RainbowKitLocale> = {
+  en: 'en-US',
+  ko: 'ko-KR',
+};
+
+// Wallet modal in the same language as the rest of the app
+function LocalizedRainbowKitProvider({ children }: { children: React.ReactNode }) {
+  const { locale } = useI18n();
+  return (
+    <RainbowKitProvider initialChain={config.chains[0]} locale={RAINBOWKIT_LOCALES[locale]}>
+      {children}
+    </RainbowKitProvider>
+  );
+}
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
-        <RainbowKitProvider initialChain={config.chains[0]}>
-          {children}
-        </RainbowKitProvider>
+        <I18nProvider>
+          <LocalizedRainbowKitProvider>
+            <LocaleSwitcher />
+            {IS_DEMO_MODE && <DemoPanel />}
+            <ConfigGate>{children}</ConfigGate>
+          </LocalizedRainbowKitProvider>
+        </I18nProvider>
       </QueryClientProvider>
     </WagmiProvider>
   );
@@ -0,0 +1,4 @@
+import { QueryClient } from '@tanstack/react-query';
+
+// Shared by the React providers and the contract utilities, so reads are cached and deduplicated once
+export const queryClient = new QueryClient();
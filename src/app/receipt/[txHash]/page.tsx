@@ -0,0 +1,25 @@
+import { notFound } from 'next/navigation';
+import { DepositReceiptView } from '../../components/DepositReceiptView';
+
+const transactionHashRegex = /^0x[a-fA-F0-9]{64}$/;
+
+interface ReceiptPageProps {
+  params: Promise<{ txHash: string }>;
+  searchParams: Promise<{ chainId?: string }>;
+}
+
+export default async function ReceiptPage({ params, searchParams }: ReceiptPageProps) {
+  const { txHash } = await params;
+  const { chainId } = await searchParams;
+  if (!transactionHashRegex.test(txHash)) {
+    notFound();
+  }
+
+  const parsedChainId = chainId ? Number(chainId) : undefined;
+  return (
+    <DepositReceiptView
+      transactionHash={txHash as `0x${string}`}
+      chainId={parsedChainId !== undefined && Number.isInteger(parsedChainId) ? parsedChainId : undefined}
+    />
+  );
+}
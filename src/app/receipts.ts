@@ -0,0 +1,117 @@
+import { formatUnits, parseEventLogs, TransactionReceiptNotFoundError } from 'viem';
+import { getPublicClient } from '@wagmi/core';
+import { SecurityDepositPool__factory } from './abi';
+import { config } from './config';
+import { createReadOnlyContractUtils } from './contracts';
+import { DEPLOYMENTS, Deployment, findDeployment } from './deployments';
+import { DepositPoolError, toDepositPoolError } from './errors';
+import { TokenMetadata } from './token';
+
+/**
+ * Deposit receipts: the pool's `Deposited` event decoded from a transaction,
+ * so participants can prove to organizers that they paid.
+ */
+
+export interface DepositReceipt {
+  deployment: Deployment;
+  transactionHash: `0x${string}`;
+  depositor: `0x${string}`;
+  amount: bigint;
+  token: TokenMetadata;
+  blockNumber: bigint;
+  // Unix seconds
+  blockTimestamp: number;
+}
+
+/**
+ * Route of the receipt page of a deposit transaction
+ */
+export function getReceiptPath(chainId: number, transactionHash: string): string {
+  return `/receipt/${transactionHash}?chainId=${chainId}`;
+}
+
+/**
+ * Find and decode the deposit made by a transaction
+ * @param transactionHash - Deposit (or approve + deposit batch) transaction hash
+ * @param chainId - Chain to look on; every deployment chain is tried when omitted
+ * @returns Promise<DepositReceipt | null> - Null if the transaction is unknown or made no deposit
+ * @throws DepositPoolError with the classified error
+ */
+export async function fetchDepositReceipt(
+  transactionHash: `0x${string}`,
+  chainId?: number
+): Promise<DepositReceipt | null> {
+  const chainIds = chainId !== undefined
+    ? [chainId]
+    : DEPLOYMENTS.map((item) => item.chainId).filter((item, index, all) => all.indexOf(item) === index);
+
+  try {
+    for (const candidateChainId of chainIds) {
+      const publicClient = getPublicClient(config, { chainId: candidateChainId });
+      if (!publicClient) {
+        throw new DepositPoolError({ code: 'UNSUPPORTED_CHAIN' });
+      }
+
+      let receipt;
+      try {
+        receipt = await publicClient.getTransactionReceipt({ hash: transactionHash });
+      } catch (error) {
+        if (error instanceof TransactionReceiptNotFoundError) {
+          continue;
+        }
+        throw error;
+      }
+
+      // Only trust events emitted by a pool in the registry
+      const depositLog = parseEventLogs({
+        abi: SecurityDepositPool__factory.abi,
+        eventName: 'Deposited',
+        logs: receipt.logs,
+      }).find((log) => findDeployment(candidateChainId, log.address));
+      if (!depositLog) {
+        return null;
+      }
+
+      const deployment = findDeployment(candidateChainId, depositLog.address) as Deployment;
+      const contractUtils = await createReadOnlyContractUtils(deployment);
+      const [block, token] = await Promise.all([
+        publicClient.getBlock({ blockNumber: receipt.blockNumber }),
+        contractUtils.getTokenMetadata(),
+      ]);
+      return {
+        deployment,
+        transactionHash,
+        depositor: depositLog.args.student,
+        amount: depositLog.args.amount,
+        token,
+        blockNumber: receipt.blockNumber,
+        blockTimestamp: Number(block.timestamp),
+      };
+    }
+    return null;
+  } catch (error) {
+    console.error('Error fetching deposit receipt:', error);
+    throw toDepositPoolError(error);
+  }
+}
+
+/**
+ * JSON representation of a receipt, for downloading
+ */
+export function depositReceiptToJson(receipt: DepositReceipt, confirmations: bigint | null) {
+  return {
+    cohort: receipt.deployment.cohort,
+    chainId: receipt.deployment.chainId,
+    pool: receipt.deployment.poolAddress,
+    token: receipt.deployment.tokenAddress,
+    transactionHash: receipt.transactionHash,
+    depositor: receipt.depositor,
+    tokenSymbol: receipt.token.symbol,
+    tokenDecimals: receipt.token.decimals,
+    amount: receipt.amount.toString(),
+    amountFormatted: formatUnits(receipt.amount, receipt.token.decimals),
+    blockNumber: receipt.blockNumber.toString(),
+    blockTime: new Date(receipt.blockTimestamp * 1000).toISOString(),
+    confirmations: confirmations === null ? null : confirmations.toString(),
+  };
+}
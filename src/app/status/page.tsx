@@ -0,0 +1,12 @@
+import { AddressStatusView } from '../components/AddressStatusView';
+
+interface StatusPageProps {
+  searchParams: Promise<{ address?: string | string[] }>;
+}
+
+export default async function StatusPage({ searchParams }: StatusPageProps) {
+  const { address } = await searchParams;
+  const query = Array.isArray(address) ? address[0] : address;
+  // Keyed on the query so the input resets when navigating to another lookup
+  return <AddressStatusView key={query ?? ''} query={query ?? ''} />;
+}
@@ -0,0 +1,44 @@
+import { formatUnits } from 'ethers';
+import { DEFAULT_LOCALE, Locale } from './i18n';
+
+/**
+ * On-chain metadata of the ERC-20 token a pool takes deposits in
+ */
+export interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+// Decimal separator of a locale, e.g. "." or ","
+function getDecimalSeparator(locale: Locale): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+}
+
+/**
+ * Format a raw token amount with the locale's digit grouping, keeping every significant decimal
+ */
+export function formatTokenValue(amount: bigint, decimals: number, locale: Locale = DEFAULT_LOCALE): string {
+  const [integer, fraction = ''] = formatUnits(amount, decimals).split('.');
+  const grouped = BigInt(integer).toLocaleString(locale);
+  const trimmedFraction = fraction.replace(/0+$/, '');
+  return trimmedFraction ? `${grouped}${getDecimalSeparator(locale)}${trimmedFraction}` : grouped;
+}
+
+/**
+ * Format a raw token amount with its symbol, e.g. "73.5 USDT"
+ */
+export function formatTokenAmount(amount: bigint, token: TokenMetadata, locale: Locale = DEFAULT_LOCALE): string {
+  return `${formatTokenValue(amount, token.decimals, locale)} ${token.symbol}`;
+}
+
+/**
+ * Format a native currency amount (e.g. a network fee) to a few significant digits, e.g. "0.000312 ETH"
+ */
+export function formatNativeAmount(
+  amount: bigint,
+  currency: { symbol: string; decimals: number },
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const value = Number(formatUnits(amount, currency.decimals));
+  return `${value.toLocaleString(locale, { maximumSignificantDigits: 3 })} ${currency.symbol}`;
+}